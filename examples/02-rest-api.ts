@@ -10,7 +10,7 @@
  * Run: bun 02-rest-api.ts
  */
 
-import { bunserve, error_handler } from '../src/index';
+import { bunserve, error_handler, HttpError } from '../src/index';
 
 // Create app with error handler
 const app = bunserve();
@@ -39,9 +39,7 @@ app.get('/api/posts/:id', ({ params }) => {
   const post = posts.find(p => p.id === params.id);
 
   if (!post) {
-    const error: any = new Error('Post not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('Post not found');
   }
 
   return { post };
@@ -51,9 +49,7 @@ app.get('/api/posts/:id', ({ params }) => {
 app.post('/api/posts', ({ body }) => {
   // Validate required fields
   if (!body.title || !body.content || !body.author) {
-    const error: any = new Error('Missing required fields: title, content, author');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Missing required fields: title, content, author');
   }
 
   const post: Post = {
@@ -75,9 +71,7 @@ app.put('/api/posts/:id', ({ params, body }) => {
   const post = posts.find(p => p.id === params.id);
 
   if (!post) {
-    const error: any = new Error('Post not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('Post not found');
   }
 
   // Update fields
@@ -94,9 +88,7 @@ app.patch('/api/posts/:id', ({ params, body }) => {
   const post = posts.find(p => p.id === params.id);
 
   if (!post) {
-    const error: any = new Error('Post not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('Post not found');
   }
 
   // Only update provided fields
@@ -111,9 +103,7 @@ app.delete('/api/posts/:id', ({ params }) => {
   const index = posts.findIndex(p => p.id === params.id);
 
   if (index === -1) {
-    const error: any = new Error('Post not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('Post not found');
   }
 
   posts.splice(index, 1);
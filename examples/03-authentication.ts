@@ -10,7 +10,7 @@
  * Run: bun 03-authentication.ts
  */
 
-import { bunserve, error_handler } from '../src/index';
+import { bunserve, error_handler, HttpError } from '../src/index';
 
 const app = bunserve();
 app.use(error_handler());
@@ -44,18 +44,14 @@ const require_auth = async ({ request }, next) => {
   const auth_header = request.headers.get('authorization');
 
   if (!auth_header || !auth_header.startsWith('Bearer ')) {
-    const error: any = new Error('Missing or invalid authorization header');
-    error.status = 401;
-    throw error;
+    throw HttpError.unauthorized('Missing or invalid authorization header');
   }
 
   const token = auth_header.substring(7);
   const user_data = verify_token(token);
 
   if (!user_data) {
-    const error: any = new Error('Invalid token');
-    error.status = 401;
-    throw error;
+    throw HttpError.unauthorized('Invalid token');
   }
 
   // Attach user to request
@@ -68,16 +64,12 @@ const require_auth = async ({ request }, next) => {
 app.post('/auth/register', ({ body }) => {
   // Validate input
   if (!body.username || !body.password || !body.email) {
-    const error: any = new Error('Missing required fields');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Missing required fields');
   }
 
   // Check if user exists
   if (users.find(u => u.username === body.username)) {
-    const error: any = new Error('Username already exists');
-    error.status = 409;
-    throw error;
+    throw HttpError.conflict('Username already exists');
   }
 
   // Create user
@@ -107,18 +99,14 @@ app.post('/auth/register', ({ body }) => {
 app.post('/auth/login', ({ body }) => {
   // Validate input
   if (!body.username || !body.password) {
-    const error: any = new Error('Missing username or password');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Missing username or password');
   }
 
   // Find user
   const user = users.find(u => u.username === body.username);
 
   if (!user || user.password !== body.password) {
-    const error: any = new Error('Invalid credentials');
-    error.status = 401;
-    throw error;
+    throw HttpError.unauthorized('Invalid credentials');
   }
 
   // Generate token
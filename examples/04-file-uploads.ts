@@ -10,7 +10,7 @@
  * Run: bun 04-file-uploads.ts
  */
 
-import { bunserve, error_handler } from '../src/index';
+import { bunserve, error_handler, HttpError } from '../src/index';
 import { writeFile, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 
@@ -24,32 +24,24 @@ await mkdir(uploads_dir, { recursive: true });
 // Single file upload
 app.post('/upload/single', async ({ body }) => {
   if (!body || !(body instanceof FormData)) {
-    const error: any = new Error('Expected multipart/form-data');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Expected multipart/form-data');
   }
 
   const file = body.get('file') as File;
 
   if (!file) {
-    const error: any = new Error('No file provided');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('No file provided');
   }
 
   // Validate file type
   const allowed_types = ['image/jpeg', 'image/png', 'image/gif'];
   if (!allowed_types.includes(file.type)) {
-    const error: any = new Error('Invalid file type. Allowed: JPEG, PNG, GIF');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Invalid file type. Allowed: JPEG, PNG, GIF');
   }
 
   // Validate file size (max 5MB)
   if (file.size > 5 * 1024 * 1024) {
-    const error: any = new Error('File too large. Max size: 5MB');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('File too large. Max size: 5MB');
   }
 
   // Save file
@@ -71,17 +63,13 @@ app.post('/upload/single', async ({ body }) => {
 // Multiple files upload
 app.post('/upload/multiple', async ({ body }) => {
   if (!body || !(body instanceof FormData)) {
-    const error: any = new Error('Expected multipart/form-data');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Expected multipart/form-data');
   }
 
   const files = body.getAll('files') as File[];
 
   if (!files || files.length === 0) {
-    const error: any = new Error('No files provided');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('No files provided');
   }
 
   const uploaded_files = [];
@@ -114,9 +102,7 @@ app.post('/upload/multiple', async ({ body }) => {
 // File upload with metadata
 app.post('/upload/with-metadata', async ({ body }) => {
   if (!body || !(body instanceof FormData)) {
-    const error: any = new Error('Expected multipart/form-data');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Expected multipart/form-data');
   }
 
   const file = body.get('file') as File;
@@ -124,9 +110,7 @@ app.post('/upload/with-metadata', async ({ body }) => {
   const description = body.get('description') as string;
 
   if (!file) {
-    const error: any = new Error('No file provided');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('No file provided');
   }
 
   // Save file
@@ -11,7 +11,7 @@
  * Run: bun 05-middleware-stack.ts
  */
 
-import { bunserve, error_handler, cors, logger, security } from '../src/index';
+import { bunserve, error_handler, cors, logger, security, HttpError } from '../src/index';
 
 const app = bunserve();
 
@@ -83,9 +83,7 @@ app.get('/health', () => {
 
 // Route that throws an error (for testing error handler)
 app.get('/error', () => {
-  const error: any = new Error('Something went wrong');
-  error.status = 500;
-  throw error;
+  throw HttpError.internal('Something went wrong');
 });
 
 // Start server
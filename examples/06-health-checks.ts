@@ -9,7 +9,7 @@
  * Run: bun 06-health-checks.ts
  */
 
-import { bunserve } from '../src/index';
+import { bunserve, HttpError } from '../src/index';
 
 const app = bunserve();
 
@@ -29,9 +29,7 @@ app.get('/ready', () => {
   const is_ready = true; // Add real checks here
 
   if (!is_ready) {
-    const error: any = new Error('Service not ready');
-    error.status = 503;
-    throw error;
+    throw HttpError.service_unavailable('Service not ready');
   }
 
   return {
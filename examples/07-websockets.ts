@@ -1,23 +1,26 @@
 /**
  * 07. WebSockets Example
  *
- * This example demonstrates combining HTTP and WebSocket servers:
+ * This example demonstrates combining HTTP and WebSocket routes:
  * - HTTP routes for REST API
- * - WebSocket connections for real-time communication
- * - Broadcasting messages to all connected clients
+ * - WebSocket routes with typed params and per-connection data
+ * - Middleware running during the upgrade
+ * - Broadcasting messages with topic pub/sub
+ * - Validating incoming JSON messages
  *
  * Run: bun 07-websockets.ts
  */
 
-import { bunserve } from '../src/index';
+import { bunserve, t } from '../src/index';
 
 const app = bunserve();
+let connections = 0;
 
 // HTTP routes
 app.get('/', () => {
   return {
     message: 'HTTP + WebSocket server',
-    websocket_url: 'ws://localhost:3000'
+    websocket_url: 'ws://localhost:3000/chat/:room'
   };
 });
 
@@ -25,64 +28,61 @@ app.get('/status', () => {
   return {
     http: 'running',
     websocket: 'available',
-    connections: 0 // Track active connections
+    connections
   };
 });
 
-// WebSocket handling
-const websocket = {
-  open(ws: any) {
-    console.log('WebSocket connection opened');
-    ws.send(JSON.stringify({
-      type: 'welcome',
-      message: 'Connected to WebSocket server'
-    }));
-  },
-
-  message(ws: any, message: string) {
-    console.log('Received message:', message);
+// Log every request, including WebSocket upgrades
+app.use(async ({ request }, next) => {
+  console.log(`${request.method} ${new URL(request.url).pathname}`);
+  await next();
+});
 
-    try {
-      const data = JSON.parse(message);
+// Chat rooms: each room is a pub/sub topic
+app.ws('/chat/:room', {
+  // Runs after middleware; the result becomes ws.data.data
+  upgrade: ({ query }) => ({ name: query.name || 'anonymous' }),
 
-      // Echo the message back
-      ws.send(JSON.stringify({
-        type: 'echo',
-        original: data,
-        timestamp: new Date()
-      }));
+  // Incoming messages must be JSON matching this schema
+  schema: t.object({ text: t.string({ min_length: 1 }) }),
 
-      // Broadcast to all connections (if needed)
-      // ws.publish('chat', JSON.stringify(data));
+  open(ws) {
+    connections++;
+    const { room } = ws.data.params;
+    ws.subscribe(room);
+    ws.send(
+      JSON.stringify({
+        type: 'welcome',
+        message: `Connected to ${room} as ${ws.data.data.name}`
+      })
+    );
+  },
 
-    } catch (err) {
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Invalid JSON'
-      }));
-    }
+  message(ws, message) {
+    // Broadcast to everyone in the room (including the sender)
+    app.publish(
+      ws.data.params.room,
+      JSON.stringify({
+        type: 'message',
+        from: ws.data.data.name,
+        text: message.text,
+        timestamp: new Date()
+      })
+    );
   },
 
-  close(ws: any) {
-    console.log('WebSocket connection closed');
+  close(ws) {
+    connections--;
+    ws.unsubscribe(ws.data.params.room);
   }
-};
-
-// Note: To actually enable WebSockets with Bun.serve, you would do:
-// Bun.serve({
-//   port: 3000,
-//   fetch: app.fetch.bind(app),
-//   websocket: websocket
-// });
+});
 
-// For this example, we'll use the standard HTTP server
-console.log('Starting HTTP + WebSocket server...');
 app.listen(3000);
-console.log('Server running at http://localhost:3000');
-console.log('');
-console.log('WebSocket functionality requires direct Bun.serve integration.');
-console.log('See documentation for full WebSocket setup.');
-console.log('');
+
 console.log('HTTP endpoints:');
 console.log('  GET /        - Server info');
 console.log('  GET /status  - Server status');
+console.log('');
+console.log('WebSocket endpoint:');
+console.log('  ws://localhost:3000/chat/:room?name=alice');
+console.log('  Send: {"text": "hello"}');
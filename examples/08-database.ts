@@ -10,7 +10,7 @@
  * Run: bun 08-database.ts
  */
 
-import { bunserve, error_handler } from '../src/index';
+import { bunserve, error_handler, HttpError } from '../src/index';
 import { Database } from 'bun:sqlite';
 
 const app = bunserve();
@@ -54,9 +54,7 @@ app.get('/users/:id', ({ params }) => {
   const user = db.query('SELECT * FROM users WHERE id = ?').get(params.id);
 
   if (!user) {
-    const error: any = new Error('User not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('User not found');
   }
 
   return { user };
@@ -65,9 +63,7 @@ app.get('/users/:id', ({ params }) => {
 // Create user
 app.post('/users', ({ body }) => {
   if (!body.username || !body.email) {
-    const error: any = new Error('Missing username or email');
-    error.status = 400;
-    throw error;
+    throw HttpError.bad_request('Missing username or email');
   }
 
   try {
@@ -84,9 +80,7 @@ app.post('/users', ({ body }) => {
     };
   } catch (err: any) {
     if (err.message.includes('UNIQUE')) {
-      const error: any = new Error('Username already exists');
-      error.status = 409;
-      throw error;
+      throw HttpError.conflict('Username already exists');
     }
     throw err;
   }
@@ -100,9 +94,7 @@ app.put('/users/:id', ({ params, body }) => {
   );
 
   if (result.changes === 0) {
-    const error: any = new Error('User not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('User not found');
   }
 
   const user = db.query('SELECT * FROM users WHERE id = ?').get(params.id);
@@ -118,9 +110,7 @@ app.delete('/users/:id', ({ params }) => {
   const result = db.run('DELETE FROM users WHERE id = ?', [params.id]);
 
   if (result.changes === 0) {
-    const error: any = new Error('User not found');
-    error.status = 404;
-    throw error;
+    throw HttpError.not_found('User not found');
   }
 
   return { message: 'User deleted' };
@@ -10,21 +10,27 @@
  * Run: bun 11-sessions.ts
  */
 
-import { bunserve, sessions, generate_csrf_token, validate_csrf_token, error_handler } from '../src/index';
-
-const app = bunserve();
-app.use(error_handler());
-
-// Session middleware
-app.use(sessions({
-  secret: 'your-secret-key-change-in-production',
-  max_age: 24 * 60 * 60 * 1000,  // 24 hours
-  cookie_options: {
-    http_only: true,
-    secure: false,  // Set to true in production with HTTPS
-    same_site: 'lax'
-  }
-}));
+import { bunserve, sessions, generate_csrf_token, validate_csrf_token, error_handler, HttpError } from '../src/index';
+
+const app = bunserve()
+  .use(error_handler())
+  // Session middleware
+  .use(sessions({
+    secret: 'your-secret-key-change-in-production',
+    max_age: 24 * 60 * 60 * 1000,  // 24 hours
+    cookie_options: {
+      http_only: true,
+      secure: false,  // Set to true in production with HTTPS
+      same_site: 'lax'
+    }
+  }))
+  // Expose the session as context.session, typed for every route below
+  .derive(({ state }) => {
+    if (!state.session) {
+      throw new Error('sessions() middleware did not load a session');
+    }
+    return { session: state.session };
+  });
 
 // Simple user database
 const users = [
@@ -33,9 +39,7 @@ const users = [
 ];
 
 // Home page
-app.get('/', ({ request }) => {
-  const session = (request as any).session;
-
+app.get('/', ({ session }) => {
   return {
     message: 'Session management example',
     logged_in: !!session.data.user_id,
@@ -47,18 +51,14 @@ app.get('/', ({ request }) => {
 });
 
 // Login
-app.post('/login', ({ request, body }) => {
-  const session = (request as any).session;
-
+app.post('/login', ({ session, body }) => {
   // Find user
   const user = users.find(u =>
     u.username === body.username && u.password === body.password
   );
 
   if (!user) {
-    const error: any = new Error('Invalid credentials');
-    error.status = 401;
-    throw error;
+    throw HttpError.unauthorized('Invalid credentials');
   }
 
   // Store user in session
@@ -75,9 +75,7 @@ app.post('/login', ({ request, body }) => {
 });
 
 // Logout
-app.post('/logout', ({ request }) => {
-  const session = (request as any).session;
-
+app.post('/logout', ({ session }) => {
   // Clear session data
   session.data = {};
 
@@ -85,13 +83,9 @@ app.post('/logout', ({ request }) => {
 });
 
 // Protected route
-app.get('/profile', ({ request }) => {
-  const session = (request as any).session;
-
+app.get('/profile', ({ session }) => {
   if (!session.data.user_id) {
-    const error: any = new Error('Not authenticated');
-    error.status = 401;
-    throw error;
+    throw HttpError.unauthorized('Not authenticated');
   }
 
   return {
@@ -104,8 +98,7 @@ app.get('/profile', ({ request }) => {
 });
 
 // CSRF token endpoint
-app.get('/csrf-token', ({ request }) => {
-  const session = (request as any).session;
+app.get('/csrf-token', ({ session }) => {
   const csrf_token = generate_csrf_token(session);
   session.data.csrf_token = csrf_token;
 
@@ -113,13 +106,9 @@ app.get('/csrf-token', ({ request }) => {
 });
 
 // Protected form submission with CSRF
-app.post('/submit-form', ({ request, body }) => {
-  const session = (request as any).session;
-
+app.post('/submit-form', ({ session, body }) => {
   if (!validate_csrf_token(session, body.csrf_token)) {
-    const error: any = new Error('Invalid CSRF token');
-    error.status = 403;
-    throw error;
+    throw HttpError.forbidden('Invalid CSRF token');
   }
 
   return {
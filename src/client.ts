@@ -0,0 +1,343 @@
+import type { RouteMap, Router, RouteTypes } from './types';
+
+/**
+ * Extract the type-level route map from a router or server instance type.
+ * @example
+ * const app = bunserve().get('/users/:id', ({ params }) => ({ id: params.id }));
+ * type AppRoutes = InferRoutes<typeof app>;
+ */
+export type InferRoutes<TApp> = TApp extends Router<any, any, any>
+  ? NonNullable<TApp['~routes']>
+  : never;
+
+/**
+ * Value accepted for a query parameter by the client.
+ */
+export type ClientQueryValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | (string | number | boolean)[];
+
+/**
+ * Request arguments for a typed client call.
+ * Required keys are derived from the route's params and schemas.
+ */
+export type ClientRequestArgs<TRoute extends RouteTypes> = Simplify<
+  (Record<never, never> extends TRoute['params']
+    ? { params?: TRoute['params'] }
+    : { params: ParamsInput<TRoute['params']> }) &
+    (TRoute['query'] extends undefined
+      ? { query?: Record<string, ClientQueryValue> }
+      : OptionalWhenEmpty<'query', TRoute['query']>) &
+    (TRoute['body'] extends undefined
+      ? { body?: unknown }
+      : { body: TRoute['body'] }) &
+    (TRoute['headers'] extends undefined
+      ? { headers?: Record<string, string> }
+      : OptionalWhenEmpty<'headers', TRoute['headers']>) & {
+      /** Extra fetch options (signal, credentials, ...) */
+      init?: RequestInit;
+    }
+>;
+
+/**
+ * Result of a typed client call.
+ * `data` is typed from the handler's return value when `ok` is true.
+ */
+export type ClientResponse<TData> =
+  | {
+      ok: true;
+      status: number;
+      data: TData;
+      headers: Headers;
+      response: Response;
+    }
+  | {
+      ok: false;
+      status: number;
+      data: unknown;
+      headers: Headers;
+      response: Response;
+    };
+
+/**
+ * Typed call for a single route method.
+ */
+export type ClientMethod<TRoute extends RouteTypes> = Record<
+  never,
+  never
+> extends ClientRequestArgs<TRoute>
+  ? (
+      args?: ClientRequestArgs<TRoute>
+    ) => Promise<ClientResponse<TRoute['response']>>
+  : (
+      args: ClientRequestArgs<TRoute>
+    ) => Promise<ClientResponse<TRoute['response']>>;
+
+/**
+ * Typed client for a route map. Path segments become nested properties
+ * (`/users/:id` is `client.users[':id']`) and HTTP methods become calls.
+ * @template TRoutes - Route map inferred from the app
+ */
+export type Client<TRoutes extends RouteMap> = UnionToIntersection<
+  {
+    [P in keyof TRoutes & string]: PathToTree<P, ClientMethods<TRoutes[P]>>;
+  }[keyof TRoutes & string]
+>;
+
+/**
+ * Options for creating a typed client.
+ */
+export interface ClientOptions {
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /**
+   * Custom fetch implementation (default: global fetch).
+   * Pass `(request) => app.fetch(request)` to call an app in-process.
+   */
+  fetch?: (request: Request) => Promise<Response>;
+}
+
+/** Flatten an intersection into a single object type. */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Convert a union into an intersection. */
+type UnionToIntersection<U> = (
+  U extends unknown
+    ? (value: U) => void
+    : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/** Route params may be passed as numbers or strings. */
+type ParamsInput<TParams> = {
+  [K in keyof TParams]: NonNullable<TParams[K]> extends string
+    ? string | number
+    : TParams[K];
+};
+
+/** Make a request part optional when none of its keys are required. */
+type OptionalWhenEmpty<TKey extends string, TValue> = Record<
+  never,
+  never
+> extends TValue
+  ? { [K in TKey]?: TValue }
+  : { [K in TKey]: TValue };
+
+/** Lowercase method names exposed by the client. */
+type ClientMethodName =
+  | 'get'
+  | 'post'
+  | 'put'
+  | 'patch'
+  | 'delete'
+  | 'options'
+  | 'head';
+
+/** Client calls for every method registered on a path ('ALL' expands to every method). */
+type ClientMethods<TMethods extends Record<string, RouteTypes>> = {
+  [M in keyof TMethods & string as M extends 'ALL'
+    ? never
+    : Lowercase<M>]: ClientMethod<TMethods[M]>;
+} & (TMethods extends { ALL: infer R extends RouteTypes }
+  ? { [M in ClientMethodName]: ClientMethod<R> }
+  : Record<never, never>);
+
+/** Build the nested client object type for a single path. */
+type PathToTree<TPath extends string, TLeaf> = TPath extends `/${infer Rest}`
+  ? SegmentsToTree<Rest, TLeaf>
+  : SegmentsToTree<TPath, TLeaf>;
+
+/** Drop an inline param constraint from a segment (`:id<int>?` is `:id?`). */
+type SegmentKey<TSegment extends string> =
+  TSegment extends `${infer Name}<${string}>${infer Optional}`
+    ? `${Name}${Optional}`
+    : TSegment;
+
+/** Build nested object types from slash-separated path segments. */
+type SegmentsToTree<TSegments extends string, TLeaf> = TSegments extends ''
+  ? TLeaf
+  : TSegments extends `${infer Head}/${infer Tail}`
+    ? Head extends ''
+      ? SegmentsToTree<Tail, TLeaf>
+      : { [K in SegmentKey<Head>]: SegmentsToTree<Tail, TLeaf> }
+    : { [K in SegmentKey<TSegments>]: TLeaf };
+
+/**
+ * HTTP methods recognized as calls on the client proxy.
+ */
+const CLIENT_METHODS = new Set<string>([
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'options',
+  'head'
+]);
+
+/**
+ * Build the request URL from path segments, params and query.
+ * @param base_url - Base URL of the app
+ * @param segments - Path segments collected by the proxy
+ * @param params - Route parameter values
+ * @param query - Query parameter values
+ * @returns Absolute request URL
+ */
+function build_url(
+  base_url: string,
+  segments: string[],
+  params: Record<string, unknown> = {},
+  query: Record<string, ClientQueryValue> = {}
+): string {
+  const path = segments
+    .flatMap((segment) => {
+      if (segment.startsWith(':')) {
+        const optional = segment.endsWith('?');
+        const name = segment.slice(1, optional ? -1 : undefined);
+        const value = params[name];
+        if (value === undefined) {
+          // Optional segments are left out when no value is given
+          if (optional) return [];
+          throw new Error(`Missing route parameter "${name}"`);
+        }
+        return [encodeURIComponent(String(value))];
+      }
+      if (segment.startsWith('*')) {
+        // Wildcards may span several segments, so slashes are kept
+        return [
+          String(params[segment.slice(1) || '*'] ?? '')
+            .split('/')
+            .map(encodeURIComponent)
+            .join('/')
+        ];
+      }
+      return [segment];
+    })
+    .join('/');
+
+  const url = new URL(`${base_url.replace(/\/+$/, '')}/${path}`);
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(key, String(entry));
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Send a request for a client call and parse the response body.
+ * @param method - HTTP method
+ * @param url - Request URL
+ * @param args - Call arguments (body, headers, init)
+ * @param options - Client options
+ * @returns Promise resolving to the client response
+ */
+async function send(
+  method: string,
+  url: string,
+  args: {
+    body?: unknown;
+    headers?: Record<string, string>;
+    init?: RequestInit;
+  },
+  options: ClientOptions
+): Promise<ClientResponse<unknown>> {
+  const headers = new Headers(options.headers);
+  for (const [key, value] of Object.entries(args.headers ?? {})) {
+    headers.set(key, value);
+  }
+
+  let body: RequestInit['body'];
+  if (args.body !== undefined) {
+    if (
+      typeof args.body === 'string' ||
+      args.body instanceof FormData ||
+      args.body instanceof Blob ||
+      args.body instanceof URLSearchParams ||
+      args.body instanceof ArrayBuffer
+    ) {
+      body = args.body;
+    } else {
+      body = JSON.stringify(args.body);
+      if (!headers.has('content-type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+    }
+  }
+
+  const request = new Request(url, { ...args.init, method, headers, body });
+  const response = await (options.fetch ?? fetch)(request);
+
+  let data: unknown = null;
+  const content_type = response.headers.get('content-type') ?? '';
+  if (method !== 'HEAD' && response.status !== 204) {
+    data = content_type.includes('json')
+      ? await response.json().catch(() => null)
+      : await response.text();
+  }
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    data,
+    headers: response.headers,
+    response
+  } as ClientResponse<unknown>;
+}
+
+/**
+ * Create a typed client for a bunserve app.
+ * Routes, params, query, body and response types are inferred from the app's type.
+ *
+ * @example
+ * ```typescript
+ * // server.ts
+ * export const app = bunserve()
+ *   .get('/users/:id', ({ params }) => ({ id: params.id, name: 'Ada' }))
+ *   .post('/users', ({ body }) => ({ created: body.name }), {
+ *     body: t.object({ name: t.string() })
+ *   });
+ *
+ * // client.ts
+ * import { client } from 'bunserve';
+ * import type { app } from './server';
+ *
+ * const api = client<typeof app>('http://localhost:3000');
+ * const result = await api.users[':id'].get({ params: { id: 42 } });
+ * if (result.ok) console.log(result.data.name);
+ * ```
+ */
+export function client<TApp extends Router<any, any, any>>(
+  base_url: string,
+  options: ClientOptions = {}
+): Client<InferRoutes<TApp>> {
+  const create = (segments: string[]): any =>
+    new Proxy(
+      {},
+      {
+        get(_target, key) {
+          if (typeof key !== 'string') return undefined;
+          if (CLIENT_METHODS.has(key)) {
+            return (args: any = {}) =>
+              send(
+                key.toUpperCase(),
+                build_url(base_url, segments, args.params, args.query),
+                args,
+                options
+              );
+          }
+          return create([...segments, key]);
+        }
+      }
+    );
+
+  return create([]);
+}
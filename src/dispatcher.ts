@@ -0,0 +1,300 @@
+import type {
+  BunRequest,
+  BunRouteDefinition,
+  BunRouteHandler,
+  BunRoutes
+} from './types';
+
+/**
+ * Route entry stored at a trie node.
+ */
+interface RouteEntry {
+  /** Handler, static response or per-method definition */
+  handler: BunRouteHandler | BunRouteDefinition;
+  /** Parameter names in path order (the wildcard is not a param, as in Bun) */
+  param_names: string[];
+}
+
+/**
+ * Path segment trie node.
+ */
+interface TrieNode {
+  /** Static segment children */
+  children: Map<string, TrieNode>;
+  /** Child for a `:param` segment */
+  param?: TrieNode;
+  /** Route registered with a trailing `*` at this node */
+  wildcard?: RouteEntry;
+  /** Route ending at this node */
+  entry?: RouteEntry;
+}
+
+/**
+ * Handles requests no route answered (the `fetch` fallback of Bun.serve).
+ */
+export type FallbackHandler = (
+  request: Request
+) => Response | Promise<Response>;
+
+/**
+ * Create an empty trie node.
+ * @returns New trie node
+ */
+function create_node(): TrieNode {
+  return { children: new Map() };
+}
+
+/**
+ * Insert a route path into the trie.
+ * @param root - Trie root
+ * @param path - Route path pattern
+ * @param handler - Route handler or definition
+ */
+function insert_route(
+  root: TrieNode,
+  path: string,
+  handler: BunRouteHandler | BunRouteDefinition
+): void {
+  const param_names: string[] = [];
+  let node = root;
+
+  for (const segment of path.split('/').slice(1)) {
+    if (segment === '*') {
+      node.wildcard = { handler, param_names };
+      return;
+    }
+    if (segment.startsWith(':')) {
+      param_names.push(segment.slice(1));
+      node.param ??= create_node();
+      node = node.param;
+    } else {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = create_node();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+  }
+
+  node.entry = { handler, param_names };
+}
+
+/**
+ * Find every route matching the path segments, most specific first.
+ * At each segment a static match beats a parameter, which beats a wildcard.
+ * @param node - Current trie node
+ * @param segments - Request path segments
+ * @param index - Current segment index
+ * @param values - Captured parameter values so far
+ * @yields Matching entries with their captured values
+ */
+function* match_routes(
+  node: TrieNode,
+  segments: string[],
+  index: number,
+  values: string[]
+): Generator<{ entry: RouteEntry; values: string[] }> {
+  if (index === segments.length) {
+    if (node.entry) yield { entry: node.entry, values };
+    return;
+  }
+
+  const segment = segments[index] as string;
+
+  const child = node.children.get(segment);
+  if (child) {
+    yield* match_routes(child, segments, index + 1, values);
+  }
+
+  // Parameters never match an empty segment
+  if (node.param && segment !== '') {
+    yield* match_routes(node.param, segments, index + 1, [...values, segment]);
+  }
+
+  if (node.wildcard) {
+    yield { entry: node.wildcard, values };
+  }
+}
+
+/**
+ * Pick the handler an entry provides for a request method.
+ * HEAD falls back to GET, like Bun.serve.
+ * @param handler - Route handler or definition
+ * @param method - Request method
+ * @returns Handler for the method, or undefined when the route lacks it
+ */
+function resolve_method(
+  handler: BunRouteHandler | BunRouteDefinition,
+  method: string
+): BunRouteHandler | undefined {
+  if (typeof handler === 'function' || handler instanceof Response) {
+    return handler;
+  }
+  const definition = handler as Record<string, BunRouteHandler | undefined>;
+  return definition[method] ?? (method === 'HEAD' ? definition.GET : undefined);
+}
+
+/**
+ * Decode a captured parameter value, keeping malformed escapes as-is.
+ * @param value - Raw path segment
+ * @returns Decoded value
+ */
+function decode_param(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * A route matching a request path.
+ */
+export interface RouteMatch {
+  /** Handler, static response or per-method definition */
+  handler: BunRouteHandler | BunRouteDefinition;
+  /** Decoded parameter values keyed by name */
+  params: Record<string, string>;
+}
+
+/**
+ * Compile routes into a matcher that lists the routes matching a path,
+ * most specific first (exact > param > wildcard at each segment).
+ * @param routes - Bun routes built by the router
+ * @returns Function yielding the matches for a pathname
+ */
+export function create_route_matcher(
+  routes: BunRoutes
+): (pathname: string) => Generator<RouteMatch> {
+  const root = create_node();
+  for (const [path, handler] of Object.entries(routes)) {
+    insert_route(root, path, handler);
+  }
+
+  return function* (pathname: string) {
+    const segments = pathname.split('/').slice(1);
+    for (const { entry, values } of match_routes(root, segments, 0, [])) {
+      const params: Record<string, string> = {};
+      entry.param_names.forEach((name, i) => {
+        params[name] = decode_param(values[i] ?? '');
+      });
+      yield { handler: entry.handler, params };
+    }
+  };
+}
+
+/**
+ * List the methods a route answers.
+ * @param handler - Route handler or definition
+ * @returns Method names, or undefined when the route answers every method
+ */
+export function route_methods(
+  handler: BunRouteHandler | BunRouteDefinition
+): string[] | undefined {
+  if (typeof handler === 'function' || handler instanceof Response) {
+    return undefined;
+  }
+  return Object.keys(handler).filter(
+    (method) => handler[method as keyof BunRouteDefinition]
+  );
+}
+
+/**
+ * Attach route params and a Bun `CookieMap` to a plain request, the way
+ * Bun.serve does for requests matched by a route.
+ * @param request - Incoming request
+ * @param params - Route parameters
+ * @returns The cookie map attached to the request
+ */
+export function prepare_request(
+  request: Request,
+  params: Record<string, string>
+): Bun.CookieMap {
+  const cookies = new Bun.CookieMap(request.headers.get('cookie') ?? '');
+  Object.defineProperties(request, {
+    params: { value: params, configurable: true },
+    cookies: { value: cookies, configurable: true }
+  });
+  return cookies;
+}
+
+/**
+ * Create an in-process dispatcher that routes requests the way Bun.serve does:
+ * exact paths beat parameters, which beat wildcards; a route without a handler
+ * for the method falls through to the next match and finally to `fallback`.
+ * Handlers receive `params` as Bun fills them (wildcards add no value) and a
+ * Bun `CookieMap`, and cookie changes are
+ * written back as `Set-Cookie` headers.
+ * @param routes - Bun routes built by the router
+ * @param fallback - Handler for requests no route answered
+ * @returns Function handling a single request
+ */
+export function create_dispatcher(
+  routes: BunRoutes,
+  fallback: FallbackHandler
+): (request: Request) => Promise<Response> {
+  const match = create_route_matcher(routes);
+
+  return async (request: Request): Promise<Response> => {
+    for (const route of match(new URL(request.url).pathname)) {
+      const handler = resolve_method(route.handler, request.method);
+      if (!handler) continue;
+
+      if (handler instanceof Response) {
+        return strip_head_body(request, handler.clone() as Response);
+      }
+
+      const cookies = prepare_request(request, route.params);
+
+      // Upgrades need a live server, so in-process dispatch always responds
+      const response = (await handler(
+        request as BunRequest<string>
+      )) as Response;
+
+      return strip_head_body(request, with_cookies(response, cookies));
+    }
+
+    return strip_head_body(request, await fallback(request));
+  };
+}
+
+/**
+ * Append `Set-Cookie` headers for cookies changed during the request.
+ * @param response - Handler response
+ * @param cookies - Request cookie map
+ * @returns Response including the cookie changes
+ */
+export function with_cookies(
+  response: Response,
+  cookies: Bun.CookieMap
+): Response {
+  const set_cookies = cookies.toSetCookieHeaders();
+  if (set_cookies.length === 0) return response;
+
+  // Copy the response, since its headers may be immutable
+  const headers = new Headers(response.headers);
+  for (const set_cookie of set_cookies) {
+    headers.append('Set-Cookie', set_cookie);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+/**
+ * Drop the body of responses to HEAD requests.
+ * @param request - Incoming request
+ * @param response - Response to send
+ * @returns Response without a body for HEAD requests
+ */
+function strip_head_body(request: Request, response: Response): Response {
+  if (request.method !== 'HEAD' || response.body === null) return response;
+  return new Response(null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * Reason phrases for the statuses `HttpError` is commonly thrown with.
+ */
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  402: 'Payment Required',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  406: 'Not Acceptable',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  410: 'Gone',
+  412: 'Precondition Failed',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  428: 'Precondition Required',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+/**
+ * Get the reason phrase for an HTTP status.
+ * @param status - HTTP status code
+ * @returns Reason phrase, e.g. `Not Found`, or `Error` for unknown statuses
+ */
+export function status_text(status: number): string {
+  return STATUS_TEXT[status] ?? 'Error';
+}
+
+/**
+ * Options for `HttpError` and its subclasses.
+ */
+export interface HttpErrorOptions {
+  /** Machine-readable error code (default: derived from the status, e.g. `NOT_FOUND`) */
+  code?: string;
+  /** Extra data for clients, such as the invalid fields */
+  details?: unknown;
+  /**
+   * Whether the message and details are safe to send to clients
+   * (default: true for 4xx, false for 5xx)
+   */
+  expose?: boolean;
+  /** Headers sent with the error response */
+  headers?: Record<string, string>;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Options for errors that can tell clients when to retry.
+ */
+export interface RetryAfterOptions extends HttpErrorOptions {
+  /** Seconds until the client may retry, sent as `Retry-After` */
+  retry_after?: number;
+}
+
+/**
+ * Options for 401 errors.
+ */
+export interface UnauthorizedOptions extends HttpErrorOptions {
+  /** Authentication challenge sent as `WWW-Authenticate`, e.g. `Bearer` */
+  challenge?: string;
+}
+
+/**
+ * JSON body of an error response.
+ */
+export interface HttpErrorBody {
+  /** Error message, or the reason phrase when the error is not exposed */
+  error: string;
+  /** HTTP status code */
+  status: number;
+  /** Machine-readable error code */
+  code: string;
+  /** Extra data, when the error is exposed */
+  details?: unknown;
+}
+
+/**
+ * Error carrying an HTTP status. Thrown from middleware or handlers, it is
+ * turned into a JSON response with its status and headers, with or without
+ * the `error_handler()` middleware.
+ * @example
+ * ```typescript
+ * app.get('/users/:id', ({ params }) => {
+ *   const user = users.get(params.id);
+ *   if (!user) throw HttpError.not_found('User not found');
+ *   return user;
+ * });
+ *
+ * throw new HttpError(402, 'Upgrade your plan', { code: 'PLAN_LIMIT' });
+ * ```
+ */
+export class HttpError extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** Machine-readable error code */
+  readonly code: string;
+  /** Extra data for clients */
+  readonly details?: unknown;
+  /** Whether the message and details are safe to send to clients */
+  readonly expose: boolean;
+  /** Headers sent with the error response */
+  readonly headers: Record<string, string>;
+
+  /**
+   * Create an HTTP error.
+   * @param status - HTTP status code
+   * @param message - Error message (default: the status reason phrase)
+   * @param options - Code, details, exposure, headers and cause
+   */
+  constructor(
+    status: number,
+    message: string = status_text(status),
+    options: HttpErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.code =
+      options.code ?? status_text(status).toUpperCase().replace(/\W+/g, '_');
+    this.details = options.details;
+    this.expose = options.expose ?? status < 500;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Response body for the error. Unexposed errors only reveal their status.
+   * Also used by `JSON.stringify()`.
+   * @returns JSON error body
+   */
+  toJSON(): HttpErrorBody {
+    if (!this.expose) {
+      return {
+        error: status_text(this.status),
+        status: this.status,
+        code: this.code
+      };
+    }
+    return {
+      error: this.message,
+      status: this.status,
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details })
+    };
+  }
+
+  /** Create a 400 Bad Request error */
+  static bad_request(
+    message?: string,
+    options?: HttpErrorOptions
+  ): BadRequestError {
+    return new BadRequestError(message, options);
+  }
+
+  /** Create a 401 Unauthorized error */
+  static unauthorized(
+    message?: string,
+    options?: UnauthorizedOptions
+  ): UnauthorizedError {
+    return new UnauthorizedError(message, options);
+  }
+
+  /** Create a 403 Forbidden error */
+  static forbidden(
+    message?: string,
+    options?: HttpErrorOptions
+  ): ForbiddenError {
+    return new ForbiddenError(message, options);
+  }
+
+  /** Create a 404 Not Found error */
+  static not_found(
+    message?: string,
+    options?: HttpErrorOptions
+  ): NotFoundError {
+    return new NotFoundError(message, options);
+  }
+
+  /** Create a 409 Conflict error */
+  static conflict(message?: string, options?: HttpErrorOptions): ConflictError {
+    return new ConflictError(message, options);
+  }
+
+  /** Create a 422 Unprocessable Content error */
+  static unprocessable(
+    message?: string,
+    options?: HttpErrorOptions
+  ): UnprocessableError {
+    return new UnprocessableError(message, options);
+  }
+
+  /** Create a 429 Too Many Requests error */
+  static too_many_requests(
+    message?: string,
+    options?: RetryAfterOptions
+  ): TooManyRequestsError {
+    return new TooManyRequestsError(message, options);
+  }
+
+  /** Create a 500 Internal Server Error, hidden from clients by default */
+  static internal(
+    message?: string,
+    options?: HttpErrorOptions
+  ): InternalServerError {
+    return new InternalServerError(message, options);
+  }
+
+  /** Create a 503 Service Unavailable error */
+  static service_unavailable(
+    message?: string,
+    options?: RetryAfterOptions
+  ): ServiceUnavailableError {
+    return new ServiceUnavailableError(message, options);
+  }
+}
+
+/**
+ * Add a `Retry-After` header to error options.
+ * @param options - Error options with `retry_after` in seconds
+ * @returns Options with the header set
+ */
+function with_retry_after(options: RetryAfterOptions): HttpErrorOptions {
+  const { retry_after, ...rest } = options;
+  if (retry_after === undefined) return rest;
+  return {
+    ...rest,
+    headers: { ...rest.headers, 'Retry-After': String(retry_after) }
+  };
+}
+
+/** 400 Bad Request */
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+/** 401 Unauthorized, with an optional `WWW-Authenticate` challenge */
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options: UnauthorizedOptions = {}) {
+    const { challenge, ...rest } = options;
+    super(
+      401,
+      message,
+      challenge === undefined
+        ? rest
+        : {
+            ...rest,
+            headers: { ...rest.headers, 'WWW-Authenticate': challenge }
+          }
+    );
+  }
+}
+
+/** 403 Forbidden */
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+/** 404 Not Found */
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+/** 409 Conflict */
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+/** 422 Unprocessable Content */
+export class UnprocessableError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+/** 429 Too Many Requests, with an optional `Retry-After` */
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options: RetryAfterOptions = {}) {
+    super(429, message, with_retry_after(options));
+  }
+}
+
+/** 500 Internal Server Error */
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+  }
+}
+
+/** 503 Service Unavailable, with an optional `Retry-After` */
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options: RetryAfterOptions = {}) {
+    super(503, message, with_retry_after(options));
+  }
+}
@@ -8,13 +8,87 @@
 
 // Re-export Context for convenience
 export { Context } from '@theinternetfolks/context';
+// Core exports
+export type {
+  Client,
+  ClientMethod,
+  ClientOptions,
+  ClientQueryValue,
+  ClientRequestArgs,
+  ClientResponse,
+  InferRoutes
+} from './client';
+export { client } from './client';
+export type {
+  HttpErrorBody,
+  HttpErrorOptions,
+  RetryAfterOptions,
+  UnauthorizedOptions
+} from './errors';
+export {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  InternalServerError,
+  NotFoundError,
+  ServiceUnavailableError,
+  status_text,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnprocessableError
+} from './errors';
+export type { LogFields, Logger, LoggingOptions, LogLevel } from './log';
+export { create_logger, REDACTED_FIELDS } from './log';
 // Middleware exports
 export * from './middleware/index';
-// Core exports
+export type {
+  OpenAPIDocument,
+  OpenAPIInfo,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIParameter,
+  OpenAPIServer
+} from './openapi';
+export { generate_openapi, to_openapi_path } from './openapi';
+export type {
+  Plugin,
+  PluginContext,
+  PluginRoutes,
+  RegisterArgs,
+  RegisterOptions
+} from './plugin';
+export { plugin } from './plugin';
 export { router } from './router';
+export type {
+  InferSchemaInput,
+  InferSchemaOutput,
+  JsonSchema,
+  ObjectShape,
+  OptionalSchema,
+  ParseOptions,
+  Schema,
+  StandardSchemaV1,
+  ValidationIssue,
+  ValidationLocation
+} from './schema';
+export { t, ValidationError } from './schema';
+export type {
+  CloseOptions,
+  Server,
+  ServerKind,
+  ServerOptions
+} from './server';
 export { bunserve } from './server';
-export type { ServerOptions } from './server';
+export type { SSEEvent, SSEOptions, SSESource, SSEStream } from './sse';
+export { format_sse_event, sse } from './sse';
 export type * from './types';
+export type {
+  WebSocketConnection,
+  WebSocketData,
+  WebSocketMessage,
+  WebSocketRoute
+} from './websocket';
 
 /**
  * @example
@@ -0,0 +1,260 @@
+/**
+ * Log levels, from most to least verbose.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger writing one JSON object per line (NDJSON).
+ * Entries carry `level`, `time` and `msg`, followed by the logger's bound
+ * fields and the fields passed to the call.
+ * @example
+ * ```typescript
+ * app.get('/orders/:id', ({ params, log }) => {
+ *   log.info({ order_id: params.id }, 'Loading order');
+ *   // {"level":"info","time":"...","msg":"Loading order","request_id":"...","method":"GET","path":"/orders/7","order_id":"7"}
+ * });
+ * ```
+ */
+export interface Logger {
+  /** Minimum level written */
+  readonly level: LogLevel;
+  /** Log at debug level, with a message and/or fields */
+  debug(fields: LogFields | string, message?: string): void;
+  /** Log at info level, with a message and/or fields */
+  info(fields: LogFields | string, message?: string): void;
+  /** Log at warn level, with a message and/or fields */
+  warn(fields: LogFields | string, message?: string): void;
+  /** Log at error level, with a message and/or fields */
+  error(fields: LogFields | string, message?: string): void;
+  /**
+   * Create a logger adding `bindings` to every entry, e.g. a job ID.
+   * @param bindings - Fields bound to the child logger
+   */
+  child(bindings: LogFields): Logger;
+  /**
+   * Whether entries at `level` are written, to skip building costly fields.
+   * @param level - Level to check
+   */
+  enabled(level: LogLevel): boolean;
+}
+
+/**
+ * Structured logging configuration.
+ */
+export interface LoggingOptions {
+  /** Whether logging is enabled (default: true) */
+  enabled?: boolean;
+  /** Log level threshold (default: 'debug' in development, 'info' in production) */
+  level?: LogLevel;
+  /**
+   * Fields replaced with `[redacted]` before writing. Names without dots match
+   * at any depth (`password`); dotted paths match from the entry root
+   * (`body.card.number`), with `*` matching any key or array index.
+   * Names are case-insensitive. Default: `REDACTED_FIELDS`.
+   */
+  redact?: string[];
+  /** Fields added to every entry, e.g. `{ service: 'api' }` */
+  fields?: LogFields;
+  /** Write a serialized entry (default: console.log) */
+  write?: (line: string) => void;
+}
+
+/**
+ * Fields redacted by default: credentials in headers and bodies.
+ */
+export const REDACTED_FIELDS = [
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'proxy-authorization',
+  'x-api-key',
+  'password'
+];
+
+/** Numeric order of levels, for threshold checks */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+/** Replacement for redacted values */
+const REDACTED = '[redacted]';
+
+/**
+ * Redaction rules split into names matched anywhere and rooted paths.
+ */
+interface RedactRules {
+  keys: Set<string>;
+  paths: string[][];
+}
+
+/**
+ * Check whether a field at `path` is redacted.
+ * @param path - Lowercase keys from the entry root
+ * @param rules - Redaction rules
+ * @returns True when the value must be hidden
+ */
+function is_redacted(path: string[], rules: RedactRules): boolean {
+  if (rules.keys.has(path[path.length - 1] ?? '')) return true;
+  return rules.paths.some(
+    (pattern) =>
+      pattern.length === path.length &&
+      pattern.every((segment, i) => segment === '*' || segment === path[i])
+  );
+}
+
+/**
+ * Copy a value for serialization, redacting fields and expanding errors.
+ * Only plain objects and arrays are walked; circular references are cut.
+ * @param value - Value to copy
+ * @param path - Lowercase keys leading to the value
+ * @param rules - Redaction rules
+ * @param seen - Objects on the current path
+ * @returns JSON-safe copy
+ */
+function sanitize(
+  value: unknown,
+  path: string[],
+  rules: RedactRules,
+  seen: WeakSet<object>
+): unknown {
+  if (value instanceof Error) {
+    return sanitize(
+      { name: value.name, message: value.message, stack: value.stack },
+      path,
+      rules,
+      seen
+    );
+  }
+  if (typeof value !== 'object' || value === null) return value;
+
+  const prototype = Object.getPrototypeOf(value);
+  const walk = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : prototype === Object.prototype || prototype === null
+      ? Object.entries(value)
+      : undefined;
+  if (!walk) return value;
+  if (seen.has(value)) return '[Circular]';
+
+  seen.add(value);
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of walk) {
+    const item_path = [...path, key.toLowerCase()];
+    copy[key] = is_redacted(item_path, rules)
+      ? REDACTED
+      : sanitize(item, item_path, rules, seen);
+  }
+  seen.delete(value);
+  return Array.isArray(value) ? Object.values(copy) : copy;
+}
+
+/**
+ * Logger bound to a set of fields, sharing its configuration with children.
+ */
+class LoggerImpl implements Logger {
+  constructor(
+    readonly level: LogLevel,
+    private readonly bindings: LogFields,
+    private readonly rules: RedactRules,
+    private readonly write: ((line: string) => void) | undefined
+  ) {}
+
+  debug(fields: LogFields | string, message?: string): void {
+    this.log('debug', fields, message);
+  }
+
+  info(fields: LogFields | string, message?: string): void {
+    this.log('info', fields, message);
+  }
+
+  warn(fields: LogFields | string, message?: string): void {
+    this.log('warn', fields, message);
+  }
+
+  error(fields: LogFields | string, message?: string): void {
+    this.log('error', fields, message);
+  }
+
+  child(bindings: LogFields): Logger {
+    return new LoggerImpl(
+      this.level,
+      { ...this.bindings, ...bindings },
+      this.rules,
+      this.write
+    );
+  }
+
+  enabled(level: LogLevel): boolean {
+    return this.write !== undefined && LEVELS[level] >= LEVELS[this.level];
+  }
+
+  /**
+   * Serialize and write an entry when its level passes the threshold.
+   * @param level - Entry level
+   * @param fields - Fields, or the message when called with a string
+   * @param message - Message when called with fields
+   */
+  private log(
+    level: LogLevel,
+    fields: LogFields | string,
+    message?: string
+  ): void {
+    if (!this.write || !this.enabled(level)) return;
+
+    const [extra, msg] =
+      typeof fields === 'string' ? [{}, fields] : [fields, message];
+    const entry = sanitize(
+      {
+        level,
+        time: new Date().toISOString(),
+        ...(msg !== undefined && { msg }),
+        ...this.bindings,
+        ...extra
+      },
+      [],
+      this.rules,
+      new WeakSet()
+    );
+    this.write(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Create a structured NDJSON logger.
+ * @param options - Level, redaction, base fields and output
+ * @returns Logger writing entries at or above the level
+ * @example
+ * ```typescript
+ * const log = create_logger({ level: 'info', fields: { service: 'billing' } });
+ * log.info({ invoice_id: 42 }, 'Invoice sent');
+ *
+ * const job_log = log.child({ job: 'reconcile' });
+ * job_log.warn('Retrying');
+ * ```
+ */
+export function create_logger(options: LoggingOptions = {}): Logger {
+  const {
+    enabled = true,
+    level = process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+    redact = REDACTED_FIELDS,
+    fields = {},
+    write = console.log
+  } = options;
+
+  const rules: RedactRules = { keys: new Set(), paths: [] };
+  for (const field of redact) {
+    const segments = field.toLowerCase().split('.');
+    if (segments.length === 1) rules.keys.add(segments[0] ?? '');
+    else rules.paths.push(segments);
+  }
+
+  return new LoggerImpl(level, fields, rules, enabled ? write : undefined);
+}
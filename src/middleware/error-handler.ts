@@ -1,26 +1,239 @@
+import { Context } from '@theinternetfolks/context';
+import { HttpError, status_text } from '../errors';
+import { ValidationError, type ValidationIssue } from '../schema';
 import type { Middleware, RouteContext } from '../types';
+import {
+  create_error_page,
+  type ErrorPage,
+  negotiate_error_format,
+  render_dev_error_page,
+  render_error_page,
+  render_error_text
+} from './error-pages';
+
+/**
+ * Content type of RFC 9457 problem details.
+ */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
 
 /**
  * Error handler middleware options.
  */
 export interface ErrorHandlerOptions {
-  /** Whether to include stack traces in error responses (default: false in production) */
+  /**
+   * Whether to include stack traces in error responses, and render the
+   * development error page for HTML (default: false in production)
+   */
   include_stack?: boolean;
-  /** Custom error formatter function */
+  /**
+   * Answer with HTML, plain text or JSON depending on the request's `Accept`
+   * header (default: true). JSON is used when the client has no preference;
+   * when false, errors are always JSON.
+   */
+  negotiate?: boolean;
+  /**
+   * Render the HTML error page (default: a minimal page, or the development
+   * page with stack, source and request details when `include_stack` is on)
+   */
+  html_template?: (page: ErrorPage) => string;
+  /**
+   * JSON response format: `json` sends `{ error, status }` bodies,
+   * `problem_details` sends RFC 9457 `application/problem+json`
+   * (default: 'json'). Ignored when `format_error` is given.
+   */
+  format?: 'json' | 'problem_details';
+  /**
+   * Base URI for problem `type` members in `problem_details` format, joined
+   * with the `HttpError` code (`NOT_FOUND` becomes `not-found`).
+   * Without it the type is `about:blank`.
+   */
+  problem_type_base?: string;
+  /** Custom formatter for JSON error responses */
   format_error?: (error: Error, context: RouteContext<string>) => any;
   /** Error logger function */
   log_error?: (error: Error, context: RouteContext<string>) => void;
 }
 
+/**
+ * One entry of the `errors` array of a validation problem, pointing at the
+ * offending value: `pointer` (JSON Pointer into the body), `parameter`
+ * (query or path parameter) or `header`.
+ */
+export interface ProblemError {
+  /** What is wrong with the value */
+  detail: string;
+  /** JSON Pointer to the value in the body, e.g. `#/items/0/name` */
+  pointer?: string;
+  /** Name of the query or path parameter */
+  parameter?: string;
+  /** Name of the header */
+  header?: string;
+}
+
+/**
+ * RFC 9457 problem details object.
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type (`about:blank` when unspecified) */
+  type: string;
+  /** Short summary of the problem type (the status reason phrase) */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Explanation of this occurrence, for exposed errors */
+  detail?: string;
+  /** Request path */
+  instance: string;
+  /** ID of the request, for correlating with logs */
+  request_id?: string;
+  /** Validation issues */
+  errors?: ProblemError[];
+  /** Extension members, such as `code` and the error's details */
+  [extension: string]: unknown;
+}
+
+/**
+ * Options for `to_problem_details()`.
+ */
+export interface ProblemDetailsOptions {
+  /** Include the stack trace as a `stack` member (default: false) */
+  include_stack?: boolean;
+  /** Base URI for problem `type` members, joined with the error code */
+  type_base?: string;
+}
+
+/** Members defined by RFC 9457 that error details may not override */
+const PROBLEM_MEMBERS = new Set([
+  'type',
+  'title',
+  'status',
+  'detail',
+  'instance',
+  'request_id',
+  'errors'
+]);
+
+/**
+ * Convert a validation issue into a problem `errors` entry.
+ * @param issue - Validation issue
+ * @returns Entry pointing at the offending value
+ */
+function to_problem_error(issue: ValidationIssue): ProblemError {
+  const name = String(issue.path[0] ?? '');
+  if (issue.location === 'query' || issue.location === 'params') {
+    return { detail: issue.message, parameter: name };
+  }
+  if (issue.location === 'headers') {
+    return { detail: issue.message, header: name };
+  }
+
+  // JSON Pointer (RFC 6901) escapes `~` and `/` in each segment
+  const pointer = issue.path
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`
+    )
+    .join('');
+  return { detail: issue.message, pointer: `#${pointer}` };
+}
+
+/**
+ * Describe an error as RFC 9457 problem details.
+ * `HttpError`s use their status, code and details (hidden when the error is
+ * not exposed); other errors use their `status` property and are only
+ * described for 4xx statuses. Validation issues become an `errors` array.
+ * @param error - Thrown error
+ * @param request - Request being handled, for `instance`
+ * @param options - Stack trace and `type` URI options
+ * @returns Problem details object
+ * @example
+ * ```typescript
+ * app.on_error((error, { request }) => {
+ *   const problem = to_problem_details(error, request);
+ *   return new Response(JSON.stringify(problem), {
+ *     status: problem.status,
+ *     headers: { 'Content-Type': PROBLEM_CONTENT_TYPE }
+ *   });
+ * });
+ * ```
+ */
+export function to_problem_details(
+  error: unknown,
+  request: Request,
+  options: ProblemDetailsOptions = {}
+): ProblemDetails {
+  const raw_status = (error as { status?: unknown } | null)?.status;
+  const status = typeof raw_status === 'number' ? raw_status : 500;
+  const expose = error instanceof HttpError ? error.expose : status < 500;
+  const code =
+    error instanceof HttpError
+      ? error.code
+      : (error as { code?: unknown } | null)?.code;
+  const details = (error as { details?: unknown } | null)?.details;
+
+  const problem: ProblemDetails = {
+    type:
+      options.type_base && typeof code === 'string'
+        ? `${options.type_base}${code.toLowerCase().replace(/_/g, '-')}`
+        : 'about:blank',
+    title: status_text(status),
+    status,
+    instance: new URL(request.url).pathname
+  };
+
+  if (expose) {
+    if (error instanceof Error && error.message) {
+      problem.detail = error.message;
+    }
+    if (typeof code === 'string') {
+      problem.code = code;
+    }
+    if (error instanceof ValidationError) {
+      problem.errors = error.issues.map(to_problem_error);
+    } else if (
+      details !== null &&
+      typeof details === 'object' &&
+      !Array.isArray(details)
+    ) {
+      for (const [name, value] of Object.entries(details)) {
+        if (!PROBLEM_MEMBERS.has(name)) problem[name] = value;
+      }
+    } else if (details !== undefined) {
+      problem.details = details;
+    }
+  } else if (error instanceof HttpError) {
+    // Codes are chosen by the app, so they are safe to share
+    problem.code = error.code;
+  }
+
+  const request_id = Context.get<{ request_id?: string }>()?.request_id;
+  if (request_id) {
+    problem.request_id = request_id;
+  }
+  if (options.include_stack && error instanceof Error) {
+    problem.stack = error.stack;
+  }
+
+  return problem;
+}
+
 /**
  * Default error formatter that creates a JSON error response.
- * Looks for error.status property to determine HTTP status code.
+ * `HttpError`s use their own body (hiding unexposed messages); other errors
+ * use their `status` property when present.
  */
 function default_error_formatter(
   error: Error,
   _context: RouteContext<string>,
   include_stack: boolean = false
 ): any {
+  if (error instanceof HttpError) {
+    return {
+      ...error.toJSON(),
+      ...(include_stack && { stack: error.stack })
+    };
+  }
+
   // Check if error has a status property
   const status = (error as any).status || 500;
 
@@ -34,12 +247,14 @@ function default_error_formatter(
 /**
  * Error handling middleware that catches errors from route handlers.
  *
- * Handles plain Error objects with optional `status` property.
- * If error.status exists, it's used as the HTTP status code, otherwise defaults to 500.
+ * Handles `HttpError`s (status, code, details and headers) and plain Error
+ * objects with an optional `status` property. Errors without a status
+ * default to 500. Responses are negotiated on the `Accept` header: browsers
+ * get an HTML page, clients asking for `text/plain` get text, others JSON.
  *
  * @example
  * ```typescript
- * import { bunserve, error_handler } from 'bunserve';
+ * import { bunserve, error_handler, HttpError } from 'bunserve';
  *
  * const app = bunserve();
  *
@@ -49,14 +264,12 @@ function default_error_formatter(
  * // Throw errors in routes with custom status
  * app.get('/user/:id', ({ params }) => {
  *   if (!users.has(params.id)) {
- *     const error = new Error('User not found');
- *     error.status = 404;
- *     throw error;
+ *     throw HttpError.not_found('User not found');
  *   }
  *   return users.get(params.id);
  * });
  *
- * // Or define your own error utilities
+ * // Errors with a status property work too
  * class AppError extends Error {
  *   constructor(message: string, public status: number) {
  *     super(message);
@@ -71,6 +284,10 @@ function default_error_formatter(
 export function error_handler(options: ErrorHandlerOptions = {}): Middleware {
   const {
     include_stack = process.env.NODE_ENV !== 'production',
+    negotiate = true,
+    html_template,
+    format = 'json',
+    problem_type_base,
     format_error = default_error_formatter,
     log_error = (error, _context) => console.error('Error:', error)
   } = options;
@@ -86,6 +303,40 @@ export function error_handler(options: ErrorHandlerOptions = {}): Middleware {
 
       // Set status code from error.status property or default to 500
       context.set.status = (err as any).status || 500;
+      if (err instanceof HttpError) {
+        Object.assign(context.set.headers, err.headers);
+      }
+
+      // Browsers get an HTML page, clients asking for text get plain text
+      const response_format = negotiate
+        ? negotiate_error_format(
+            context.request.headers.get('accept') ?? undefined
+          )
+        : 'json';
+      if (response_format !== 'json') {
+        const page = await create_error_page(err, context, include_stack);
+        if (response_format === 'text') {
+          context.set.content = 'text';
+          return render_error_text(page);
+        }
+        const render =
+          html_template ??
+          (include_stack ? render_dev_error_page : render_error_page);
+        context.set.content = 'html';
+        return render(page);
+      }
+
+      if (format === 'problem_details' && !options.format_error) {
+        const problem = to_problem_details(err, context.request, {
+          include_stack,
+          type_base: problem_type_base
+        });
+        // A Response keeps its content type; headers from `set` are added
+        return new Response(JSON.stringify(problem), {
+          status: problem.status,
+          headers: { 'Content-Type': PROBLEM_CONTENT_TYPE }
+        });
+      }
 
       // Format and return error response
       const error_response = format_error(err, context, include_stack);
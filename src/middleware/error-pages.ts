@@ -0,0 +1,327 @@
+import { Context } from '@theinternetfolks/context';
+import { HttpError, status_text } from '../errors';
+import type { RouteContext } from '../types';
+
+/**
+ * Response formats an error can be rendered in.
+ */
+export type ErrorFormat = 'json' | 'html' | 'text';
+
+/**
+ * Lines of source code around the place an error was thrown.
+ */
+export interface ErrorSource {
+  /** Source file path */
+  file: string;
+  /** Line the error was thrown on (1-based) */
+  line: number;
+  /** Column the error was thrown at (1-based) */
+  column: number;
+  /** Lines around `line`, with their numbers */
+  lines: { number: number; text: string }[];
+}
+
+/**
+ * Data an HTML error template renders.
+ */
+export interface ErrorPage {
+  /** HTTP status code */
+  status: number;
+  /** Status reason phrase, e.g. `Not Found` */
+  title: string;
+  /** Message safe to show (the title when the error is not exposed) */
+  message: string;
+  /** `HttpError` code */
+  code?: string;
+  /** ID of the request, for correlating with logs */
+  request_id?: string;
+  /** Request being answered; headers carrying credentials are redacted */
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+  };
+  /** Stack trace, when `include_stack` is on */
+  stack?: string;
+  /** Source around the throw site, when `include_stack` is on */
+  source?: ErrorSource;
+}
+
+/** Media types offered for error responses, in order of preference */
+const ERROR_MEDIA_TYPES: [ErrorFormat, string][] = [
+  ['json', 'application/json'],
+  ['html', 'text/html'],
+  ['text', 'text/plain']
+];
+
+/** Request headers never shown on error pages */
+const REDACTED_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'x-api-key'
+]);
+
+/** Lines of source shown before and after the throw site */
+const SOURCE_CONTEXT_LINES = 5;
+
+/**
+ * Pick the error format the client prefers from its `Accept` header.
+ * Media ranges are weighed by their `q` value; JSON wins ties and requests
+ * without an `Accept` header. `application/problem+json` counts as JSON.
+ * @param accept - Value of the `Accept` header
+ * @returns Preferred format
+ * @example
+ * negotiate_error_format('text/html,application/xhtml+xml,*\/*;q=0.8');
+ * // 'html'
+ */
+export function negotiate_error_format(
+  accept: string | undefined
+): ErrorFormat {
+  if (!accept) return 'json';
+
+  const ranges = accept.split(',').map((part) => {
+    const [range = '', ...params] = part.trim().toLowerCase().split(';');
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith('q='));
+    const quality = q ? Number.parseFloat(q.slice(2)) : 1;
+    return {
+      range:
+        range.trim() === 'application/problem+json'
+          ? 'application/json'
+          : range.trim(),
+      quality: Number.isNaN(quality) ? 0 : quality
+    };
+  });
+
+  let best: { format: ErrorFormat; quality: number } = {
+    format: 'json',
+    quality: 0
+  };
+  for (const [format, media_type] of ERROR_MEDIA_TYPES) {
+    // The most specific matching range decides the quality
+    const [type] = media_type.split('/');
+    const match =
+      ranges.find(({ range }) => range === media_type) ??
+      ranges.find(({ range }) => range === `${type}/*`) ??
+      ranges.find(({ range }) => range === '*/*');
+    if (match && match.quality > best.quality) {
+      best = { format, quality: match.quality };
+    }
+  }
+  return best.format;
+}
+
+/**
+ * Escape text for use in HTML.
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+function escape_html(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Read the source lines around the first stack frame in a local file.
+ * @param stack - Error stack trace
+ * @returns Source snippet, or undefined when no frame points to a readable file
+ */
+async function read_error_source(
+  stack: string | undefined
+): Promise<ErrorSource | undefined> {
+  for (const frame of stack?.split('\n').slice(1) ?? []) {
+    const location =
+      /\(?(?:file:\/\/)?(\/[^()]+?|[A-Za-z]:\\[^()]+?):(\d+):(\d+)\)?$/.exec(
+        frame.trim()
+      );
+    if (!location || location[1]?.includes('node_modules')) continue;
+
+    const [, file = '', line, column] = location;
+    try {
+      const text = await Bun.file(file).text();
+      const lines = text.split('\n');
+      const line_number = Number(line);
+      const first = Math.max(1, line_number - SOURCE_CONTEXT_LINES);
+      const last = Math.min(lines.length, line_number + SOURCE_CONTEXT_LINES);
+      return {
+        file,
+        line: line_number,
+        column: Number(column),
+        lines: lines.slice(first - 1, last).map((source_line, index) => ({
+          number: first + index,
+          text: source_line
+        }))
+      };
+    } catch {
+      // Frames in generated or missing files have no source to show
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect what an error page shows about an error.
+ * Without `include_stack`, messages of unexposed errors (5xx by default) are
+ * replaced by the status reason phrase.
+ * @param error - Thrown error
+ * @param context - Route context of the failed request
+ * @param include_stack - Include the stack trace and source snippet
+ * @returns Error page data
+ */
+export async function create_error_page(
+  error: Error,
+  context: RouteContext<string>,
+  include_stack: boolean
+): Promise<ErrorPage> {
+  const status = context.set.status;
+  const title = status_text(status);
+  const expose = error instanceof HttpError ? error.expose : status < 500;
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(context.headers)) {
+    headers[name] = REDACTED_HEADERS.has(name) ? '[redacted]' : value;
+  }
+
+  return {
+    status,
+    title,
+    message: (include_stack || expose) && error.message ? error.message : title,
+    code: error instanceof HttpError ? error.code : undefined,
+    request_id: Context.get<{ request_id?: string }>()?.request_id,
+    request: {
+      method: context.request.method,
+      url: context.request.url,
+      headers
+    },
+    ...(include_stack && {
+      stack: error.stack,
+      source: await read_error_source(error.stack)
+    })
+  };
+}
+
+/**
+ * Render an error as plain text.
+ * @param page - Error page data
+ * @returns Status line and message, followed by the stack when present
+ */
+export function render_error_text(page: ErrorPage): string {
+  const lines = [`${page.status} ${page.title}`];
+  if (page.message !== page.title) lines.push(page.message);
+  if (page.stack) lines.push('', page.stack);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Default HTML error page: the status and message only.
+ * @param page - Error page data
+ * @returns HTML document
+ */
+export function render_error_page(page: ErrorPage): string {
+  const heading = `${page.status} ${escape_html(page.title)}`;
+  const message =
+    page.message === page.title ? '' : `<p>${escape_html(page.message)}</p>`;
+  const request_id = page.request_id
+    ? `<p class="id">Request ID: ${escape_html(page.request_id)}</p>`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${heading}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:0;display:grid;place-items:center;min-height:100vh;color:#222;background:#fafafa}
+main{text-align:center;padding:2rem}
+h1{font-size:2rem;margin:0 0 .5rem}
+.id{color:#888;font-size:.85rem}
+</style>
+</head>
+<body>
+<main>
+<h1>${heading}</h1>
+${message}
+${request_id}
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * Development HTML error page with the stack trace, source snippet and
+ * request details. Only used when `include_stack` is on.
+ * @param page - Error page data
+ * @returns HTML document
+ */
+export function render_dev_error_page(page: ErrorPage): string {
+  const heading = `${page.status} ${escape_html(page.title)}`;
+  const source = page.source
+    ? `<section>
+<h2>${escape_html(page.source.file)}:${page.source.line}:${page.source.column}</h2>
+<pre class="source">${page.source.lines
+        .map(
+          ({ number, text }) =>
+            `<span class="${number === page.source?.line ? 'line hit' : 'line'}"><span class="no">${number}</span>${escape_html(text)}</span>`
+        )
+        .join('\n')}</pre>
+</section>`
+    : '';
+  const stack = page.stack
+    ? `<section><h2>Stack</h2><pre>${escape_html(page.stack)}</pre></section>`
+    : '';
+  const headers = Object.entries(page.request.headers)
+    .map(
+      ([name, value]) =>
+        `<tr><th>${escape_html(name)}</th><td>${escape_html(value)}</td></tr>`
+    )
+    .join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${heading}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:0;color:#222;background:#fafafa}
+header{background:#b91c1c;color:#fff;padding:1.5rem 2rem}
+header h1{margin:0;font-size:1.5rem}
+header p{margin:.5rem 0 0;font-size:1.1rem}
+section{padding:1rem 2rem}
+h2{font-size:1rem;color:#555;margin:0 0 .5rem;word-break:break-all}
+pre{background:#fff;border:1px solid #ddd;border-radius:4px;padding:1rem;overflow:auto;font-size:.85rem}
+.source{padding:0}
+.line{display:block;padding:0 1rem}
+.line.hit{background:#fee2e2}
+.no{display:inline-block;width:3rem;color:#999;user-select:none}
+table{border-collapse:collapse;font-size:.85rem}
+th,td{text-align:left;padding:.25rem .75rem .25rem 0;vertical-align:top;word-break:break-all}
+th{color:#555}
+</style>
+</head>
+<body>
+<header>
+<h1>${heading}${page.code ? ` <small>${escape_html(page.code)}</small>` : ''}</h1>
+<p>${escape_html(page.message)}</p>
+</header>
+${source}
+${stack}
+<section>
+<h2>Request</h2>
+<table>
+<tr><th>Method</th><td>${escape_html(page.request.method)}</td></tr>
+<tr><th>URL</th><td>${escape_html(page.request.url)}</td></tr>
+${page.request_id ? `<tr><th>Request ID</th><td>${escape_html(page.request_id)}</td></tr>` : ''}
+${headers}
+</table>
+</section>
+</body>
+</html>`;
+}
@@ -5,11 +5,34 @@
  */
 
 export { type CorsOptions, cors, cors_presets } from './cors';
-export { type ErrorHandlerOptions, error_handler } from './error-handler';
-export { type LoggerOptions, logger, logger_presets } from './logger';
+export {
+  type ErrorHandlerOptions,
+  error_handler,
+  PROBLEM_CONTENT_TYPE,
+  type ProblemDetails,
+  type ProblemDetailsOptions,
+  type ProblemError,
+  to_problem_details
+} from './error-handler';
+export {
+  type ErrorFormat,
+  type ErrorPage,
+  type ErrorSource,
+  negotiate_error_format,
+  render_dev_error_page,
+  render_error_page
+} from './error-pages';
+export {
+  type LoggerOptions,
+  type LogToken,
+  type LogTokenInfo,
+  logger,
+  logger_presets
+} from './logger';
 export { type SecurityHeadersOptions, security } from './security-headers';
 export { type StaticOptions, static_files } from './static';
 export {
+  type SessionMiddleware,
   type SessionOptions,
   type Session,
   type SessionStore,
@@ -1,5 +1,6 @@
 import { Context } from '@theinternetfolks/context';
-import type { Middleware } from '../types';
+import type { LogFields, LogLevel } from '../log';
+import type { Middleware, RouteContext } from '../types';
 
 /**
  * Logger middleware configuration options.
@@ -9,14 +10,59 @@ export interface LoggerOptions {
   preset?: 'development' | 'production' | 'minimal';
   /** Whether to log requests */
   enabled?: boolean;
-  /** Log format (default: 'combined') */
-  format?: 'combined' | 'common' | 'dev' | 'short' | 'tiny';
-  /** Custom log function */
+  /**
+   * Log format (default: 'dev'): a named format or a format string of
+   * `:tokens` such as `:method :url :status :response-time ms`. `json` writes
+   * structured entries through `context.log`, configured with the `logging`
+   * server option.
+   */
+  format?:
+    | 'combined'
+    | 'common'
+    | 'dev'
+    | 'short'
+    | 'tiny'
+    | 'json'
+    | (string & {});
+  /** Custom tokens for format strings, by name without the colon */
+  tokens?: Record<string, LogToken>;
+  /** Custom log function for text formats */
   log?: (message: string) => void;
   /** Skip logging for certain paths */
   skip?: (path: string) => boolean;
+  /** Extra fields for `json` entries, e.g. the authenticated user */
+  fields?: (context: RouteContext<string>) => LogFields;
+  /** Include request headers in `json` entries (default: false) */
+  include_headers?: boolean;
+  /** Include the parsed request body in `json` entries (default: false) */
+  include_body?: boolean;
 }
 
+/**
+ * Request and response a log line is computed from.
+ */
+export interface LogTokenInfo {
+  /** Route context of the request */
+  context: RouteContext<string>;
+  /** Final response sent to the client */
+  response: Response;
+  /** Request ID */
+  request_id: string;
+  /** When the request was received */
+  start: Date;
+  /** Milliseconds between the logger running and the response being built */
+  response_time: number;
+}
+
+/**
+ * Format token: computes one value of a log line. `argument` is the text in
+ * brackets (`:res[content-length]`). Empty values are written as `-`.
+ */
+export type LogToken = (
+  info: LogTokenInfo,
+  argument?: string
+) => string | number | null | undefined;
+
 /**
  * Preset configurations for common logging scenarios.
  */
@@ -35,6 +81,143 @@ const PRESETS: Record<string, Partial<LoggerOptions>> = {
   }
 };
 
+/**
+ * Format strings of the named formats. `common` and `combined` are the
+ * Apache/NCSA Common and Combined Log Formats.
+ */
+const FORMATS: Record<string, string> = {
+  common:
+    ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length]',
+  combined:
+    ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length] ":referrer" ":user-agent"',
+  short: ':method :url :status',
+  tiny: ':method :url'
+};
+
+/** Month abbreviations of Common Log Format dates */
+const CLF_MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec'
+];
+
+/**
+ * Format a date as in the Common Log Format, e.g. `10/Oct/2000:13:55:36 +0000`.
+ */
+function format_clf_date(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}/${CLF_MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Get the user name from Basic credentials in the Authorization header.
+ */
+function basic_auth_user(
+  authorization: string | undefined
+): string | undefined {
+  if (!authorization?.toLowerCase().startsWith('basic ')) return undefined;
+  const credentials = Buffer.from(authorization.slice(6).trim(), 'base64');
+  return credentials.toString().split(':')[0];
+}
+
+/**
+ * Built-in tokens, named like morgan's.
+ */
+const TOKENS: Record<string, LogToken> = {
+  'remote-addr': ({ context }) => context.ip,
+  'remote-user': ({ context }) =>
+    basic_auth_user(context.headers.authorization),
+  date: ({ start }, format = 'web') => {
+    if (format === 'clf') return format_clf_date(start);
+    if (format === 'iso') return start.toISOString();
+    return start.toUTCString();
+  },
+  method: ({ context }) => context.request.method,
+  url: ({ context }) => {
+    const url = new URL(context.request.url);
+    return url.pathname + url.search;
+  },
+  // Bun.serve speaks HTTP/1.1
+  'http-version': () => '1.1',
+  status: ({ response }) => response.status,
+  res: ({ response }, header = '') => response.headers.get(header),
+  req: ({ context }, header = '') => context.request.headers.get(header),
+  'response-time': ({ response_time }, digits = '3') =>
+    response_time.toFixed(Number(digits)),
+  referrer: ({ context }) =>
+    context.headers.referer ?? context.headers.referrer,
+  'user-agent': ({ context }) => context.headers['user-agent'],
+  'request-id': ({ request_id }) => request_id
+};
+
+/** Token in a format string, with an optional bracketed argument */
+const TOKEN_PATTERN = /:([-\w]{2,})(?:\[([^\]]+)\])?/g;
+
+/**
+ * Escape a token value like Apache does: quotes and backslashes are
+ * backslash-escaped and control characters written as `\xhh`, so values
+ * cannot break quoting or forge log lines.
+ */
+function escape_log_value(value: string): string {
+  let escaped = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '"' || char === '\\') {
+      escaped += `\\${char}`;
+    } else if (code < 0x20 || code === 0x7f) {
+      escaped += `\\x${code.toString(16).padStart(2, '0')}`;
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+/**
+ * Compile a format string into a function writing log lines.
+ * @param format - Format string with `:tokens`
+ * @param tokens - Available tokens
+ * @returns Function computing the line for a response
+ * @throws Error when the format uses an unknown token
+ */
+function compile_format(
+  format: string,
+  tokens: Record<string, LogToken>
+): (info: LogTokenInfo) => string {
+  const parts: (string | ((info: LogTokenInfo) => string))[] = [];
+  let last = 0;
+
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    const [text, name = '', argument] = match;
+    const token = tokens[name];
+    if (!token) {
+      throw new Error(`Unknown log format token ":${name}"`);
+    }
+    parts.push(format.slice(last, match.index), (info) => {
+      const value = token(info, argument);
+      return value === undefined || value === null || value === ''
+        ? '-'
+        : escape_log_value(String(value));
+    });
+    last = match.index + text.length;
+  }
+  parts.push(format.slice(last));
+
+  return (info) =>
+    parts
+      .map((part) => (typeof part === 'string' ? part : part(info)))
+      .join('');
+}
+
 /**
  * Color codes for terminal output.
  */
@@ -59,37 +242,26 @@ function get_status_color(status: number): string {
 }
 
 /**
- * Format log message based on format type.
+ * Get the log level for a response status: error for 5xx, warn for 4xx.
  */
-function format_log(
-  format: string,
-  method: string,
-  url: string,
-  status: number,
-  duration: number,
-  request_id: string
-): string {
-  const status_color = get_status_color(status);
-
-  switch (format) {
-    case 'dev':
-      return `${colors.gray}[${request_id}]${colors.reset} ${method} ${url} ${status_color}${status}${colors.reset} ${duration}ms`;
-
-    case 'combined':
-      return `${new Date().toISOString()} [${request_id}] ${method} ${url} ${status} ${duration}ms`;
-
-    case 'common':
-      return `${method} ${url} ${status} ${duration}ms`;
-
-    case 'short':
-      return `${method} ${url} ${status}`;
-
-    case 'tiny':
-      return `${method} ${url}`;
+function get_status_level(status: number): LogLevel {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'warn';
+  return 'info';
+}
 
-    default:
-      return `${method} ${url} ${status} ${duration}ms`;
-  }
+/**
+ * Development format: request ID, method, URL, colored status and duration.
+ */
+function format_dev({
+  context,
+  response,
+  request_id,
+  response_time
+}: LogTokenInfo): string {
+  const url = new URL(context.request.url);
+  const status_color = get_status_color(response.status);
+  return `${colors.gray}[${request_id}]${colors.reset} ${context.request.method} ${url.pathname}${url.search} ${status_color}${response.status}${colors.reset} ${Math.round(response_time)}ms`;
 }
 
 /**
@@ -113,6 +285,18 @@ function format_log(
  *   skip: (path) => path.startsWith('/health')
  * }));
  *
+ * // Format string with a custom token
+ * app.use(logger({
+ *   format: ':method :url :status :res[content-length] - :response-time ms :tenant',
+ *   tokens: { tenant: ({ context }) => context.headers['x-tenant'] }
+ * }));
+ *
+ * // Structured NDJSON entries via context.log
+ * app.use(logger({
+ *   format: 'json',
+ *   fields: ({ state }) => ({ tenant: state.tenant })
+ * }));
+ *
  * // Preset with overrides
  * app.use(logger({
  *   preset: 'development',
@@ -135,8 +319,12 @@ export function logger(options: LoggerOptions = {}): Middleware {
   const {
     enabled = true,
     format = 'dev',
+    tokens,
     log = console.log,
-    skip = () => false
+    skip = () => false,
+    fields,
+    include_headers = false,
+    include_body = false
   } = config;
 
   if (!enabled) {
@@ -145,6 +333,11 @@ export function logger(options: LoggerOptions = {}): Middleware {
     };
   }
 
+  const format_line =
+    format === 'dev'
+      ? format_dev
+      : compile_format(FORMATS[format] ?? format, { ...TOKENS, ...tokens });
+
   return async (context, next) => {
     const url = new URL(context.request.url);
     const path = url.pathname;
@@ -155,25 +348,41 @@ export function logger(options: LoggerOptions = {}): Middleware {
       return;
     }
 
-    const method = context.request.method;
     const ctx = Context.get<{ request_id: string; start_time: number }>();
-    const start_time = ctx?.start_time || Date.now();
+    const start = new Date(ctx?.start_time || Date.now());
     const request_id = ctx?.request_id || 'unknown';
+    const started = performance.now();
 
-    await next();
+    // Log once the final response is built, including error responses
+    context.on_response((response) => {
+      const info: LogTokenInfo = {
+        context,
+        response,
+        request_id,
+        start,
+        response_time: performance.now() - started
+      };
+
+      if (format === 'json') {
+        // Request ID, method and path are bound to context.log
+        context.log[get_status_level(response.status)](
+          {
+            status: response.status,
+            duration_ms: Math.round(info.response_time),
+            user_agent: context.headers['user-agent'],
+            ...(include_headers && { headers: context.headers }),
+            ...(include_body && { body: context.body }),
+            ...fields?.(context)
+          },
+          'request completed'
+        );
+        return;
+      }
 
-    const duration = Date.now() - start_time;
-    const status = context.set.status;
-
-    const log_message = format_log(
-      format,
-      method,
-      path,
-      status,
-      duration,
-      request_id
-    );
-    log(log_message);
+      log(format_line(info));
+    });
+
+    await next();
   };
 }
 
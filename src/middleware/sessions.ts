@@ -14,6 +14,13 @@ export interface Session {
   last_access: number;
 }
 
+declare module '../types' {
+  interface ContextState {
+    /** Session loaded by the `sessions()` middleware */
+    session?: Session;
+  }
+}
+
 /**
  * Session store interface for custom implementations.
  * Implement this to use your own storage backend (Redis, Database, etc.)
@@ -123,6 +130,14 @@ export interface SessionOptions {
   cleanup_interval?: number;
 }
 
+/**
+ * Session middleware with control over its auto-cleanup timer.
+ */
+export interface SessionMiddleware extends Middleware {
+  /** Stop the auto-cleanup timer, e.g. from `app.on_shutdown()` */
+  stop(): void;
+}
+
 /**
  * Generate a secure random session ID.
  * @returns Session ID string
@@ -149,14 +164,16 @@ function generate_session_id(): string {
  * const app = bunserve({ router: router() });
  *
  * // Basic usage with in-memory store
- * app.use(sessions({
+ * const session_middleware = sessions({
  *   secret: 'your-secret-key',
  *   max_age: 24 * 60 * 60 * 1000 // 24 hours
- * }));
+ * });
+ * app.use(session_middleware);
+ * app.on_shutdown(session_middleware.stop);
  *
  * // Access session in routes
- * app.get('/login', async ({ body, request }) => {
- *   const session = request.session;
+ * app.get('/login', async ({ body, state }) => {
+ *   const session = state.session!;
  *   session.data.user_id = user.id;
  *   session.data.username = user.username;
  *   return { message: 'Logged in' };
@@ -171,7 +188,7 @@ function generate_session_id(): string {
  * }));
  * ```
  */
-export function sessions(options: SessionOptions): Middleware {
+export function sessions(options: SessionOptions): SessionMiddleware {
   const {
     secret,
     cookie_name = 'session_id',
@@ -189,16 +206,19 @@ export function sessions(options: SessionOptions): Middleware {
     same_site = 'lax'
   } = cookie_options;
 
-  // Setup auto-cleanup if interval is set and store supports it
-  if (cleanup_interval > 0 && store.cleanup) {
-    setInterval(() => {
-      store.cleanup?.().catch((err) => {
-        console.error('Session cleanup error:', err);
-      });
-    }, cleanup_interval);
-  }
+  // Setup auto-cleanup if interval is set and store supports it.
+  // The timer is unref'd so it never keeps the process alive on its own.
+  const cleanup_timer =
+    cleanup_interval > 0 && store.cleanup
+      ? setInterval(() => {
+          store.cleanup?.().catch((err) => {
+            console.error('Session cleanup error:', err);
+          });
+        }, cleanup_interval)
+      : undefined;
+  cleanup_timer?.unref();
 
-  return async (context, next) => {
+  const middleware: Middleware = async (context, next) => {
     // Get session ID from cookie
     let session_id = context.cookies.get(cookie_name);
     let session: Session | null = null;
@@ -244,8 +264,13 @@ export function sessions(options: SessionOptions): Middleware {
       await store.set(session_id, session);
     }
 
-    // Attach session to request
-    (context.request as any).session = session;
+    // Expose the session to downstream middleware and handlers
+    context.state.session = session;
+    // Deprecated alias kept for handlers reading `request.session`
+    Object.defineProperty(context.request, 'session', {
+      value: session,
+      configurable: true
+    });
 
     // Continue to next middleware
     await next();
@@ -255,6 +280,10 @@ export function sessions(options: SessionOptions): Middleware {
       await store.set(session_id!, session);
     }
   };
+
+  return Object.assign(middleware, {
+    stop: () => clearInterval(cleanup_timer)
+  });
 }
 
 /**
@@ -266,14 +295,14 @@ export function sessions(options: SessionOptions): Middleware {
  * import { generate_csrf_token, validate_csrf_token } from 'bunserve';
  *
  * // In a route handler
- * app.get('/form', ({ request }) => {
- *   const csrf_token = generate_csrf_token(request.session);
- *   request.session.data.csrf_token = csrf_token;
+ * app.get('/form', ({ state }) => {
+ *   const csrf_token = generate_csrf_token(state.session!);
+ *   state.session!.data.csrf_token = csrf_token;
  *   return { csrf_token };
  * });
  *
- * app.post('/submit', ({ request, body }) => {
- *   if (!validate_csrf_token(request.session, body.csrf_token)) {
+ * app.post('/submit', ({ state, body }) => {
+ *   if (!validate_csrf_token(state.session!, body.csrf_token)) {
  *     throw new Error('Invalid CSRF token');
  *   }
  *   // Process form...
@@ -302,8 +331,8 @@ export function validate_csrf_token(session: Session, token: string): boolean {
  * ```typescript
  * import { destroy_session } from 'bunserve';
  *
- * app.post('/logout', async ({ request, cookies }) => {
- *   await destroy_session(request.session, cookies, store);
+ * app.post('/logout', async ({ state, cookies }) => {
+ *   await destroy_session(state.session!, cookies, store);
  *   return { message: 'Logged out' };
  * });
  * ```
@@ -0,0 +1,454 @@
+import {
+  expand_route_path,
+  PARAM_CONSTRAINTS,
+  type ParamConstraint,
+  type ParsedRoutePath
+} from './params';
+import { is_schema, type JsonSchema, type StandardSchemaV1 } from './schema';
+import type { RouteOptions, RouteRegistration } from './types';
+
+/**
+ * OpenAPI info object.
+ */
+export interface OpenAPIInfo {
+  /** API title */
+  title: string;
+  /** API version (not the OpenAPI version) */
+  version: string;
+  /** API description (CommonMark) */
+  description?: string;
+  /** Additional info fields (contact, license, termsOfService, ...) */
+  [key: string]: unknown;
+}
+
+/**
+ * OpenAPI server object.
+ */
+export interface OpenAPIServer {
+  /** Server URL */
+  url: string;
+  /** Server description */
+  description?: string;
+}
+
+/**
+ * OpenAPI operation object.
+ */
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: JsonSchema }>;
+    }
+  >;
+}
+
+/**
+ * OpenAPI parameter object.
+ */
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/**
+ * OpenAPI 3.1 document.
+ */
+export interface OpenAPIDocument {
+  openapi: '3.1.0';
+  info: OpenAPIInfo;
+  servers?: OpenAPIServer[];
+  tags?: { name: string; description?: string }[];
+  security?: Record<string, string[]>[];
+  paths: Record<string, Record<string, OpenAPIOperation>>;
+  components?: Record<string, unknown>;
+}
+
+/**
+ * Options for generating (and optionally serving) an OpenAPI document.
+ */
+export interface OpenAPIOptions {
+  /** API metadata */
+  info: OpenAPIInfo;
+  /** Server list */
+  servers?: OpenAPIServer[];
+  /** Tag definitions (descriptions, ordering) */
+  tags?: { name: string; description?: string }[];
+  /** Default security requirements applied to every operation */
+  security?: Record<string, string[]>[];
+  /** Reusable components, e.g. `{ securitySchemes: { bearer_auth: {...} } }` */
+  components?: Record<string, unknown>;
+  /** Serve the JSON document at this path (e.g. '/openapi.json') */
+  path?: string;
+  /** Serve a self-contained HTML viewer at this path (e.g. '/docs'); requires `path` */
+  viewer_path?: string;
+  /**
+   * Convert third-party Standard Schema validators to JSON Schema.
+   * Built-in `t` schemas are converted automatically; unresolved schemas become `{}`.
+   */
+  resolve_schema?: (schema: StandardSchemaV1) => JsonSchema | undefined;
+}
+
+/**
+ * Methods a route registered with `all()` is documented under.
+ */
+const ALL_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'options',
+  'head'
+];
+
+/**
+ * JSON Schemas for path params with inline constraints.
+ */
+const CONSTRAINT_SCHEMAS: Record<ParamConstraint, JsonSchema> = {
+  int: { type: 'integer' },
+  number: { type: 'number' },
+  slug: { type: 'string', pattern: PARAM_CONSTRAINTS.slug.pattern.source },
+  uuid: { type: 'string', format: 'uuid' }
+};
+
+/**
+ * Translate a route path into an OpenAPI templated path.
+ * `:id` (or `:id<int>`) becomes `{id}`, a trailing `*` becomes `{wildcard}`
+ * and a named wildcard `*path` becomes `{path}`. Optional segments are kept.
+ * @param path - Route path pattern
+ * @returns Templated path and the path parameter names in order
+ * @example
+ * to_openapi_path('/users/:id<int>/files/*');
+ * // { path: '/users/{id}/files/{wildcard}', params: ['id', 'wildcard'] }
+ */
+export function to_openapi_path(path: string): {
+  path: string;
+  params: string[];
+} {
+  return template_variant(expand_route_path(path).at(-1) as ParsedRoutePath);
+}
+
+/**
+ * Template a single path variant for OpenAPI.
+ * @param variant - Bun-native path variant
+ * @returns Templated path and the path parameter names in order
+ */
+function template_variant(variant: ParsedRoutePath): {
+  path: string;
+  params: string[];
+} {
+  const params = variant.names.map((name) =>
+    name === '*' ? 'wildcard' : name
+  );
+  let index = 0;
+  const templated = variant.path
+    .split('/')
+    .map((segment) =>
+      segment.startsWith(':') || segment === '*'
+        ? `{${params[index++]}}`
+        : segment
+    )
+    .join('/');
+
+  return { path: templated, params };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from route registrations.
+ * @param registrations - Registered routes (including mounted sub-routers)
+ * @param options - Document metadata and schema resolution options
+ * @returns OpenAPI document
+ */
+export function generate_openapi(
+  registrations: RouteRegistration[],
+  options: OpenAPIOptions
+): OpenAPIDocument {
+  const resolve = (schema: StandardSchemaV1): JsonSchema => {
+    if (is_schema(schema)) return schema.json_schema;
+    return options.resolve_schema?.(schema) ?? {};
+  };
+
+  const paths: OpenAPIDocument['paths'] = {};
+
+  // Explicit method registrations answer before `all()` at runtime (HEAD
+  // included, through GET), so `all()` routes do not document those methods
+  const explicit = new Set<string>();
+  for (const registration of registrations) {
+    if (registration.method === 'ALL') continue;
+    const method = registration.method.toLowerCase();
+    for (const variant of expand_route_path(registration.path)) {
+      const { path } = template_variant(variant);
+      explicit.add(`${method} ${path}`);
+      if (method === 'get') explicit.add(`head ${path}`);
+    }
+  }
+
+  for (const registration of registrations) {
+    const route_options: RouteOptions = registration.options ?? {};
+    if (route_options.hide) continue;
+
+    const methods =
+      registration.method === 'ALL'
+        ? ALL_METHODS
+        : [registration.method.toLowerCase()];
+
+    // Optional segments document one path per variant
+    const variants = expand_route_path(registration.path);
+    for (const [index, variant] of variants.entries()) {
+      const { path, params } = template_variant(variant);
+      const operation = build_operation(
+        params,
+        route_options,
+        resolve,
+        variant.constraints
+      );
+
+      paths[path] ??= {};
+      for (const method of methods) {
+        if (
+          registration.method === 'ALL' &&
+          explicit.has(`${method} ${path}`)
+        ) {
+          continue;
+        }
+        paths[path][method] = route_options.operation_id
+          ? {
+              ...operation,
+              operationId: unique_operation_id(
+                route_options.operation_id,
+                variants.length - 1 - index,
+                methods.length > 1 ? method : undefined
+              )
+            }
+          : operation;
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers && { servers: options.servers }),
+    ...(options.tags && { tags: options.tags }),
+    ...(options.security && { security: options.security }),
+    paths,
+    ...(options.components && { components: options.components })
+  };
+}
+
+/**
+ * Derive a unique operation ID for one operation of a route that documents
+ * several (optional segment variants, `ALL` methods).
+ * @param operation_id - Route `operation_id`
+ * @param variant - Variant position counted back from the full path (0 for it)
+ * @param method - Method suffix for `ALL` routes
+ * @returns Operation ID, unchanged for the full path of a single method
+ * @example
+ * unique_operation_id('get_post', 1, undefined); // 'get_post_1'
+ * unique_operation_id('ping', 0, 'head'); // 'ping_head'
+ */
+function unique_operation_id(
+  operation_id: string,
+  variant: number,
+  method: string | undefined
+): string {
+  return [operation_id, variant > 0 && variant, method]
+    .filter((part) => part !== false && part !== undefined)
+    .join('_');
+}
+
+/**
+ * Build an OpenAPI operation for a single route.
+ * @param path_params - Path parameter names from the route pattern
+ * @param route_options - Route schemas and documentation metadata
+ * @param resolve - Schema to JSON Schema converter
+ * @param constraints - Inline constraints of the path parameters
+ * @returns OpenAPI operation object
+ */
+function build_operation(
+  path_params: string[],
+  route_options: RouteOptions,
+  resolve: (schema: StandardSchemaV1) => JsonSchema,
+  constraints: Record<string, ParamConstraint> = {}
+): OpenAPIOperation {
+  const params_schema = route_options.params
+    ? resolve(route_options.params)
+    : {};
+  const params_properties = (params_schema.properties ?? {}) as Record<
+    string,
+    JsonSchema
+  >;
+
+  const parameters: OpenAPIParameter[] = path_params.map((name) => {
+    const constraint = constraints[name];
+    return {
+      name,
+      in: 'path',
+      required: true,
+      schema:
+        params_properties[name] ??
+        (constraint ? CONSTRAINT_SCHEMAS[constraint] : { type: 'string' })
+    };
+  });
+
+  if (route_options.query) {
+    parameters.push(
+      ...object_parameters(resolve(route_options.query), 'query')
+    );
+  }
+  if (route_options.headers) {
+    parameters.push(
+      ...object_parameters(resolve(route_options.headers), 'header')
+    );
+  }
+
+  const responses: OpenAPIOperation['responses'] = {};
+  for (const [status, schema] of Object.entries(route_options.response ?? {})) {
+    responses[status] = {
+      description: `Response ${status}`,
+      content: { 'application/json': { schema: resolve(schema) } }
+    };
+  }
+  if (Object.keys(responses).length === 0) {
+    responses['200'] = { description: 'Successful response' };
+  }
+
+  return {
+    ...(route_options.operation_id && {
+      operationId: route_options.operation_id
+    }),
+    ...(route_options.summary && { summary: route_options.summary }),
+    ...(route_options.description && {
+      description: route_options.description
+    }),
+    ...(route_options.tags && { tags: route_options.tags }),
+    ...(route_options.deprecated && { deprecated: true }),
+    ...(route_options.security && { security: route_options.security }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route_options.body && {
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: resolve(route_options.body) }
+        }
+      }
+    }),
+    responses
+  };
+}
+
+/**
+ * Expand an object JSON Schema into individual OpenAPI parameters.
+ * @param schema - Object JSON Schema (query or headers)
+ * @param location - Parameter location
+ * @returns OpenAPI parameters, one per property
+ */
+function object_parameters(
+  schema: JsonSchema,
+  location: 'query' | 'header'
+): OpenAPIParameter[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (schema.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema: property
+  }));
+}
+
+/**
+ * Render a self-contained HTML viewer for an OpenAPI document.
+ * The page has no external dependencies; it fetches the JSON document and
+ * renders operations grouped by tag.
+ * @param title - Page title
+ * @param spec_url - URL of the OpenAPI JSON document
+ * @returns HTML page
+ */
+export function render_openapi_viewer(title: string, spec_url: string): string {
+  const escape_html = (value: string) =>
+    value.replace(
+      /[&<>"']/g,
+      (char) =>
+        ({
+          '&': '&amp;',
+          '<': '&lt;',
+          '>': '&gt;',
+          '"': '&quot;',
+          "'": '&#39;'
+        })[char] ?? char
+    );
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape_html(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:0;padding:2rem;max-width:960px;margin:auto;color:#1f2328}
+h1{margin-top:0}h2{border-bottom:1px solid #d0d7de;padding-bottom:.3rem;margin-top:2rem}
+details{border:1px solid #d0d7de;border-radius:6px;margin:.5rem 0}
+summary{cursor:pointer;padding:.5rem .75rem;display:flex;gap:.75rem;align-items:center}
+.method{font-weight:700;text-transform:uppercase;min-width:4.5rem;font-size:.8rem}
+.get{color:#0969da}.post{color:#1a7f37}.put,.patch{color:#9a6700}.delete{color:#cf222e}
+.path{font-family:ui-monospace,monospace}.muted{color:#656d76}
+.deprecated .path{text-decoration:line-through}
+.body{padding:.5rem .75rem;border-top:1px solid #d0d7de}
+pre{background:#f6f8fa;padding:.75rem;border-radius:6px;overflow:auto;font-size:.8rem}
+</style>
+</head>
+<body>
+<div id="app">Loading&hellip;</div>
+<script>
+const spec_url = ${JSON.stringify(spec_url).replace(/</g, '\\u003c')};
+const esc = (v) => String(v ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+const block = (label, value) => '<h4>' + label + '</h4><pre>' + esc(JSON.stringify(value, null, 2)) + '</pre>';
+fetch(spec_url).then((r) => r.json()).then((doc) => {
+  const groups = {};
+  for (const [path, methods] of Object.entries(doc.paths || {})) {
+    for (const [method, op] of Object.entries(methods)) {
+      for (const tag of op.tags && op.tags.length ? op.tags : ['default']) {
+        (groups[tag] = groups[tag] || []).push({ path, method, op });
+      }
+    }
+  }
+  let html = '<h1>' + esc(doc.info.title) + ' <span class="muted">' + esc(doc.info.version) + '</span></h1>';
+  if (doc.info.description) html += '<p>' + esc(doc.info.description) + '</p>';
+  for (const server of doc.servers || []) html += '<p class="muted">Server: <code>' + esc(server.url) + '</code></p>';
+  for (const [tag, ops] of Object.entries(groups)) {
+    html += '<h2>' + esc(tag) + '</h2>';
+    for (const { path, method, op } of ops) {
+      html += '<details class="' + (op.deprecated ? 'deprecated' : '') + '"><summary><span class="method ' + method + '">' + method + '</span><span class="path">' + esc(path) + '</span><span class="muted">' + esc(op.summary) + '</span></summary><div class="body">';
+      if (op.description) html += '<p>' + esc(op.description) + '</p>';
+      if (op.parameters) html += block('Parameters', op.parameters);
+      if (op.requestBody) html += block('Request body', op.requestBody);
+      if (op.security) html += block('Security', op.security);
+      html += block('Responses', op.responses) + '</div></details>';
+    }
+  }
+  document.getElementById('app').innerHTML = html;
+}).catch((error) => {
+  document.getElementById('app').textContent = 'Failed to load ' + spec_url + ': ' + error;
+});
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,255 @@
+/**
+ * Built-in constraints for inline route params (`/users/:id<int>`).
+ * Each constraint has a pattern the raw segment must match and an optional
+ * conversion applied to the matched value.
+ */
+export const PARAM_CONSTRAINTS = {
+  /** Integer, coerced to a number */
+  int: { pattern: /^-?\d+$/, coerce: Number },
+  /** Decimal number, coerced to a number */
+  number: { pattern: /^-?\d+(?:\.\d+)?$/, coerce: Number },
+  /** Lowercase words separated by single hyphens */
+  slug: { pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/ },
+  /** UUID in canonical 8-4-4-4-12 form */
+  uuid: {
+    pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  }
+} satisfies Record<
+  string,
+  { pattern: RegExp; coerce?: (value: string) => unknown }
+>;
+
+/**
+ * Name of a built-in param constraint.
+ */
+export type ParamConstraint = keyof typeof PARAM_CONSTRAINTS;
+
+/**
+ * Param type produced by each constraint.
+ */
+export interface ParamConstraintTypes {
+  int: number;
+  number: number;
+  slug: string;
+  uuid: string;
+}
+
+/**
+ * One Bun-native variant of a route path: the path given to Bun and how to
+ * read and check its params.
+ */
+export interface ParsedRoutePath {
+  /** Path given to Bun (`/users/:id`, `/files/*`) */
+  path: string;
+  /** Path with params replaced by `:` so equivalent patterns compare equal */
+  shape: string;
+  /** Route pattern of this variant without constraints (`/files/*path`) */
+  pattern: string;
+  /** Param keys Bun uses, in path order ('*' for the wildcard) */
+  keys: string[];
+  /** Param names exposed to handlers, in the same order as `keys` */
+  names: string[];
+  /** Constraint for each constrained param */
+  constraints: Record<string, ParamConstraint>;
+}
+
+/**
+ * Expand a route path into the Bun-native paths it stands for.
+ * Optional params (`:id?`) produce a variant with and without the segment,
+ * named wildcards (`*path`) become `*` with the param renamed, and inline
+ * constraints (`:id<int>`) are split out.
+ * @param path - Route path pattern, e.g. `/posts/:id<int>?`
+ * @returns Variants, the one with every optional segment present last
+ * @throws Error when a constraint is unknown or a wildcard is not the last segment
+ * @example
+ * expand_route_path('/posts/:id<int>?').map((variant) => variant.path);
+ * // ['/posts', '/posts/:id']
+ */
+export function expand_route_path(path: string): ParsedRoutePath[] {
+  let variants: ParsedRoutePath[] = [
+    {
+      path: '',
+      shape: '',
+      pattern: '',
+      keys: [],
+      names: [],
+      constraints: {}
+    }
+  ];
+  const segments = path.split('/').slice(1);
+
+  segments.forEach((segment, index) => {
+    const wildcard = /^\*(\w*)$/.exec(segment);
+    if (wildcard) {
+      if (index !== segments.length - 1) {
+        throw new Error(`Wildcard must be the last segment in route "${path}"`);
+      }
+      const name = wildcard[1] || '*';
+      variants = variants.map((variant) =>
+        append_segment(variant, '*', segment, '*', name)
+      );
+      return;
+    }
+
+    const param = /^:([^<?]+)(?:<([^>]+)>)?(\?)?$/.exec(segment);
+    if (!param) {
+      variants = variants.map((variant) =>
+        append_segment(variant, segment, segment)
+      );
+      return;
+    }
+
+    const [, name, constraint, optional] = param as unknown as [
+      string,
+      string,
+      string?,
+      string?
+    ];
+    if (constraint && !Object.hasOwn(PARAM_CONSTRAINTS, constraint)) {
+      throw new Error(
+        `Unknown constraint "${constraint}" for param "${name}" in route "${path}"`
+      );
+    }
+
+    const present = variants.map((variant) => {
+      const next = append_segment(variant, ':', `:${name}`, name, name);
+      if (constraint) {
+        next.constraints = {
+          ...next.constraints,
+          [name]: constraint as ParamConstraint
+        };
+      }
+      return next;
+    });
+    variants = optional ? [...variants, ...present] : present;
+  });
+
+  // Variants with the same shape are ambiguous; the first one wins
+  const shapes = new Set<string>();
+  return variants
+    .map((variant) => ({
+      ...variant,
+      path: variant.path || '/',
+      shape: variant.shape || '/',
+      pattern: variant.pattern || '/'
+    }))
+    .filter((variant) => {
+      if (shapes.has(variant.shape)) return false;
+      shapes.add(variant.shape);
+      return true;
+    });
+}
+
+/**
+ * Add a segment to a path variant.
+ * @param variant - Variant built so far
+ * @param shape - Segment in the shape (`:` for params)
+ * @param pattern - Segment in the pattern
+ * @param key - Bun param key when the segment is a param
+ * @param name - Handler param name when the segment is a param
+ * @returns New variant
+ */
+function append_segment(
+  variant: ParsedRoutePath,
+  shape: string,
+  pattern: string,
+  key?: string,
+  name?: string
+): ParsedRoutePath {
+  const bun_segment =
+    key === undefined ? pattern : key === '*' ? '*' : `:${key}`;
+  return {
+    path: `${variant.path}/${bun_segment}`,
+    shape: `${variant.shape}/${shape}`,
+    pattern: `${variant.pattern}/${pattern}`,
+    keys: key === undefined ? variant.keys : [...variant.keys, key],
+    names: name === undefined ? variant.names : [...variant.names, name],
+    constraints: variant.constraints
+  };
+}
+
+/**
+ * Check raw param values against a route's constraints and coerce them.
+ * @param constraints - Constraint for each constrained param
+ * @param params - Raw param values keyed by name
+ * @returns Coerced params, or undefined when a value does not match
+ */
+export function apply_param_constraints(
+  constraints: Record<string, ParamConstraint>,
+  params: Record<string, string>
+): Record<string, unknown> | undefined {
+  const output: Record<string, unknown> = { ...params };
+
+  for (const [name, constraint] of Object.entries(constraints)) {
+    const value = params[name];
+    const definition: { pattern: RegExp; coerce?: (value: string) => unknown } =
+      PARAM_CONSTRAINTS[constraint];
+    if (value === undefined || !definition.pattern.test(value)) {
+      return undefined;
+    }
+    output[name] = definition.coerce ? definition.coerce(value) : value;
+  }
+
+  return output;
+}
+
+/**
+ * Read the wildcard value of a request matched by a Bun path ending in `*`.
+ * Bun's router does not expose it in `params`, so it is taken from the
+ * request path after the route's static prefix.
+ * @param path - Bun-native route path, e.g. `/files/:bucket/*`
+ * @param pathname - Request pathname
+ * @returns Decoded rest of the path (malformed escapes are kept as-is)
+ * @example
+ * read_wildcard('/files/*', '/files/docs/a%20b.txt'); // 'docs/a b.txt'
+ */
+export function read_wildcard(path: string, pathname: string): string {
+  const rest = pathname
+    .split('/')
+    .slice(path.split('/').length - 1)
+    .join('/');
+  try {
+    return decodeURIComponent(rest);
+  } catch {
+    return rest;
+  }
+}
+
+/**
+ * Fill a route path pattern with param values.
+ * Optional segments are left out when their param is missing, constraints
+ * are dropped, and wildcard values keep their slashes.
+ * @param path - Route path pattern, e.g. `/users/:id<int>/files/*path`
+ * @param params - Param values keyed by name ('*' for an unnamed wildcard)
+ * @returns URL path with encoded param values
+ * @throws Error when a required param is missing
+ * @example
+ * fill_route_path('/users/:id<int>/posts/:post?', { id: 42 });
+ * // '/users/42/posts'
+ */
+export function fill_route_path(
+  path: string,
+  params: Record<string, unknown>
+): string {
+  const segments = path
+    .split('/')
+    .slice(1)
+    .flatMap((segment) => {
+      const wildcard = /^\*(\w*)$/.exec(segment);
+      const param = /^:([^<?]+)(?:<[^>]+>)?(\?)?$/.exec(segment);
+      if (!wildcard && !param) return [segment];
+
+      const name = wildcard ? wildcard[1] || '*' : (param?.[1] as string);
+      const value = params[name];
+      if (value === undefined || value === null) {
+        if (param?.[2] || wildcard) return [];
+        throw new Error(`Missing route parameter "${name}" for "${path}"`);
+      }
+
+      return wildcard
+        ? [String(value).split('/').map(encodeURIComponent).join('/')]
+        : [encodeURIComponent(String(value))];
+    });
+
+  return `/${segments.join('/')}`;
+}
@@ -0,0 +1,94 @@
+import type { GroupRoutes, Router } from './types';
+
+/**
+ * A reusable bundle of routes, middleware, hooks, context extensions and
+ * shutdown hooks, installed with `app.register(plugin, options)`.
+ * @template TOptions - Options passed to `register()` (undefined when none)
+ * @template TResult - What `setup` returns; return the router to keep its types
+ * @template TEncapsulate - Whether middleware, hooks and context extensions stay scoped
+ */
+export interface Plugin<
+  TOptions = undefined,
+  TResult = unknown,
+  TEncapsulate extends boolean = true
+> {
+  /** Unique name; registering a name twice is ignored */
+  readonly name: string;
+  /** Plugins that must be registered before this one */
+  readonly dependencies?: readonly string[];
+  /**
+   * Keep the plugin's middleware, hooks and context extensions to its own
+   * routes (default: true). Set to false to apply them to the whole app.
+   */
+  readonly encapsulate?: TEncapsulate;
+  /**
+   * Install the plugin on a fresh router, mounted under the registration
+   * prefix once setup finishes. May be async; async setups run in
+   * registration order before the server starts.
+   * @param app - Router scoped to the plugin
+   * @param options - Options given to `register()`
+   */
+  setup(app: Router, options: TOptions): TResult;
+}
+
+/**
+ * Options understood by `register()` itself, alongside the plugin's options.
+ * @template TPrefix - Path prefix for the plugin's routes
+ */
+export interface RegisterOptions<TPrefix extends string = ''> {
+  /** Path prefix for the plugin's routes */
+  prefix?: TPrefix;
+}
+
+/**
+ * Arguments after the plugin in `register()`: options are optional when the
+ * plugin accepts none.
+ */
+export type RegisterArgs<
+  TOptions,
+  TPrefix extends string
+> = undefined extends TOptions
+  ? [options?: TOptions & RegisterOptions<TPrefix>]
+  : [options: TOptions & RegisterOptions<TPrefix>];
+
+/**
+ * Route map added by a plugin: the routes of the router its setup returns.
+ */
+export type PluginRoutes<TResult> = GroupRoutes<Awaited<TResult>>;
+
+/**
+ * Context extensions a plugin adds to the app: those of the router its setup
+ * returns, for plugins that are not encapsulated.
+ */
+export type PluginContext<TResult, TEncapsulate extends boolean> = [
+  TEncapsulate
+] extends [false]
+  ? Awaited<TResult> extends Router<any, any, infer TContext>
+    ? TContext
+    : object
+  : object;
+
+/**
+ * Define a plugin. Returns the definition unchanged, typed for `register()`.
+ * @param definition - Plugin name, dependencies and setup function
+ * @returns The plugin
+ * @example
+ * ```typescript
+ * const health = plugin({
+ *   name: 'health',
+ *   setup: (app, options: { version: string }) =>
+ *     app.get('/health', () => ({ status: 'ok', version: options.version }))
+ * });
+ *
+ * app.register(health, { version: '1.2.0', prefix: '/internal' });
+ * ```
+ */
+export function plugin<
+  TOptions = undefined,
+  TResult = unknown,
+  TEncapsulate extends boolean = true
+>(
+  definition: Plugin<TOptions, TResult, TEncapsulate>
+): Plugin<TOptions, TResult, TEncapsulate> {
+  return definition;
+}
@@ -1,16 +1,224 @@
 import { Context } from '@theinternetfolks/context';
+import type { Server as BunServer } from 'bun';
+import {
+  create_route_matcher,
+  prepare_request,
+  type RouteMatch,
+  route_methods,
+  with_cookies
+} from './dispatcher';
+import { HttpError } from './errors';
+import { create_logger, type Logger } from './log';
+import {
+  generate_openapi,
+  type OpenAPIDocument,
+  type OpenAPIOptions,
+  render_openapi_viewer
+} from './openapi';
+import {
+  apply_param_constraints,
+  expand_route_path,
+  fill_route_path,
+  type ParsedRoutePath,
+  read_wildcard
+} from './params';
+import type { Plugin, RegisterOptions } from './plugin';
+import {
+  to_validation_issues,
+  ValidationError,
+  type ValidationIssue,
+  type ValidationLocation,
+  validate_schema
+} from './schema';
+import { sse } from './sse';
 import type {
+  AfterHandleHook,
+  BeforeHandleHook,
   BunRequest,
   BunRouteDefinition,
   BunRoutes,
   CookieMap,
+  LifecycleHooks,
   Middleware,
+  OnErrorHook,
+  OnRequestHook,
+  OnResponseHook,
+  RawResponseBody,
+  ResponseSchemaMap,
   ResponseSetter,
+  ResponseValidationMode,
+  RouteChain,
+  RouteConflictMode,
   RouteContext,
   RouteHandler,
+  RouteInfo,
+  RouteOptions,
   RouteRegistration,
-  Router
+  Router,
+  RouterOptions,
+  RouteSchema,
+  ShutdownHook,
+  UrlForOptions
 } from './types';
+import {
+  create_connection_data,
+  is_websocket_upgrade,
+  type WebSocketRegistration,
+  type WebSocketRoute
+} from './websocket';
+
+/**
+ * Methods a route definition can hold, in `Allow` header order.
+ */
+const HTTP_METHODS = [
+  'GET',
+  'HEAD',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS'
+] as const;
+
+/**
+ * A route registration paired with one of its Bun-native path variants.
+ */
+interface RouteVariant {
+  /** Route registration */
+  registration: RouteRegistration;
+  /** Path variant of the registration */
+  route: ParsedRoutePath;
+}
+
+/**
+ * Registration methods offered by `route()` chains.
+ */
+const CHAIN_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'options',
+  'head',
+  'all'
+] as const;
+
+/**
+ * Lifecycle hooks normalized to arrays, in run order.
+ */
+interface HookLists {
+  on_request: OnRequestHook[];
+  before_handle: BeforeHandleHook[];
+  after_handle: AfterHandleHook[];
+  on_response: OnResponseHook[];
+  on_error: OnErrorHook[];
+}
+
+/**
+ * Combine lifecycle hooks, keeping the order of the sources.
+ * @param sources - Hooks to combine (app and router hooks before route hooks)
+ * @returns Hook arrays
+ */
+function merge_hooks(...sources: (LifecycleHooks | undefined)[]): HookLists {
+  const lists: HookLists = {
+    on_request: [],
+    before_handle: [],
+    after_handle: [],
+    on_response: [],
+    on_error: []
+  };
+  for (const source of sources) {
+    for (const key of Object.keys(lists) as (keyof HookLists)[]) {
+      const hooks = source?.[key];
+      if (hooks) {
+        (lists[key] as unknown[]).push(...[hooks].flat());
+      }
+    }
+  }
+  return lists;
+}
+
+/**
+ * Context properties set by the router, which `derive()` and `decorate()`
+ * may not replace.
+ */
+const RESERVED_CONTEXT_KEYS = new Set([
+  'request',
+  'params',
+  'query',
+  'body',
+  'headers',
+  'cookies',
+  'set',
+  'state',
+  'log',
+  'ip',
+  'on_response',
+  'sse'
+]);
+
+/**
+ * Add properties to a route context.
+ * @param context - Route context
+ * @param values - Properties to add
+ * @throws Error when a property would replace one set by the router
+ */
+function extend_context(context: RouteContext<string>, values: object): void {
+  for (const key of Object.keys(values)) {
+    if (RESERVED_CONTEXT_KEYS.has(key)) {
+      throw new Error(`Cannot replace reserved context property "${key}"`);
+    }
+  }
+  Object.assign(context, values);
+}
+
+/**
+ * Check whether a handler result should be sent without serialization.
+ * @param value - Handler or middleware result
+ * @returns True for Response, Blob (including BunFile), binary and stream values
+ */
+function is_raw_body(value: unknown): value is RawResponseBody {
+  return (
+    value instanceof Response ||
+    value instanceof Blob ||
+    value instanceof ArrayBuffer ||
+    value instanceof Uint8Array ||
+    value instanceof ReadableStream
+  );
+}
+
+/**
+ * Route contexts whose JSON request body failed to parse.
+ */
+const malformed_json_contexts = new WeakSet<object>();
+
+/**
+ * Callbacks registered with `context.on_response()`, by route context.
+ */
+const response_callbacks = new WeakMap<
+  object,
+  ((response: Response) => Promise<void> | void)[]
+>();
+
+/**
+ * Run the `context.on_response()` callbacks of a request with its final
+ * response. Errors are logged so they cannot replace the response.
+ * @param context - Route context of the request
+ * @param response - Response sent to the client
+ */
+async function run_response_callbacks(
+  context: RouteContext<string>,
+  response: Response
+): Promise<void> {
+  for (const callback of response_callbacks.get(context) ?? []) {
+    try {
+      await callback(response);
+    } catch (error) {
+      console.error('Response callback error:', error);
+    }
+  }
+}
 
 /**
  * Router implementation that builds Bun-native routes for optimal performance.
@@ -19,8 +227,48 @@ import type {
 class RouterImpl implements Router {
   /** Array of registered route handlers */
   private registrations: RouteRegistration[] = [];
+  /** Array of registered WebSocket routes */
+  private websocket_registrations: WebSocketRegistration[] = [];
+  /** Routes built by the last `build_routes()` call (cleared on registration) */
+  private built_routes?: BunRoutes;
+  /** Handler for requests no route matches */
+  private not_found_handler?: RouteHandler<string>;
+  /** Path matcher used by the fallback to find allowed methods */
+  private matcher?: (pathname: string) => Generator<RouteMatch>;
+  /** Routes the matcher was built from */
+  private matcher_routes?: BunRoutes;
   /** Array of global middleware functions */
   private global_middlewares: Middleware[] = [];
+  /** How response schemas are enforced */
+  private response_validation: ResponseValidationMode;
+  /** How duplicate method/path registrations are reported */
+  private route_conflicts: RouteConflictMode;
+  /** Structured logger each request's `context.log` is a child of */
+  private logger: Logger;
+  /** Method and path variant keys registered so far */
+  private claimed_routes = new Set<string>();
+  /** Named routes by name */
+  private named_routes = new Map<string, RouteRegistration>();
+  /** Lifecycle hooks added with `on_request()`, `on_error()`, etc. */
+  private hooks = merge_hooks();
+  /** Names of registered plugins, including those still installing */
+  private plugins = new Set<string>();
+  /** Installation of plugins with an async setup, in registration order */
+  private pending_plugins?: Promise<void>;
+  /** Hooks run when the server shuts down */
+  private shutdown_hooks: ShutdownHook[] = [];
+
+  /**
+   * Create a new router.
+   * @param options - Router configuration (supplied by the server)
+   */
+  constructor(options: RouterOptions = {}) {
+    this.response_validation =
+      options.response_validation ??
+      (process.env.NODE_ENV === 'production' ? 'strip' : 'strict');
+    this.route_conflicts = options.route_conflicts ?? 'error';
+    this.logger = create_logger(options.logging);
+  }
 
   /**
    * Generate a unique request ID for tracking and debugging.
@@ -36,19 +284,77 @@ class RouterImpl implements Router {
    * @param path - Route path pattern
    * @param handler - Route handler function
    * @param middlewares - Array of middleware functions (optional)
+   * @param options - Route options such as schemas and documentation (optional)
+   * @throws Error when the path is invalid or conflicts with an existing route
    */
   private add_route<TPath extends string>(
     method: string,
     path: TPath,
-    handler: RouteHandler<TPath>,
-    middlewares: Middleware[] = []
+    handler: RouteHandler<TPath, any>,
+    middlewares: Middleware[] = [],
+    options?: RouteOptions
   ): void {
-    this.registrations.push({
+    this.claim_route(method, path);
+    const registration = {
       method,
       path,
       handler,
-      middlewares
-    } as RouteRegistration<TPath>);
+      middlewares,
+      options
+    } as RouteRegistration<TPath>;
+    this.claim_name(registration as RouteRegistration);
+
+    this.built_routes = undefined;
+    this.registrations.push(registration);
+  }
+
+  /**
+   * Record the path variants of a route, reporting ones already registered
+   * for the same method. Routes that differ only in constraints don't conflict.
+   * @param method - HTTP method, 'ALL' or 'WS'
+   * @param path - Route path pattern
+   * @param mount_path - Mount prefix when the route comes from a mounted router
+   * @throws Error when the path is invalid, or conflicts and conflicts are errors
+   */
+  private claim_route(method: string, path: string, mount_path?: string): void {
+    const keys = expand_route_path(path).map(
+      (variant) =>
+        `${method} ${variant.shape} ${JSON.stringify(variant.constraints)}`
+    );
+    const conflict = keys.some((key) => this.claimed_routes.has(key));
+
+    if (conflict && this.route_conflicts !== 'off') {
+      const message = mount_path
+        ? `Route ${method} ${path} from the router mounted at ${mount_path} shadows an existing route`
+        : `Route ${method} ${path} is already registered`;
+      if (this.route_conflicts === 'error') {
+        throw new Error(message);
+      }
+      console.warn(message);
+    }
+
+    for (const key of keys) {
+      this.claimed_routes.add(key);
+    }
+  }
+
+  /**
+   * Index a named route, reporting names already in use.
+   * @param registration - Route registration (with its full path)
+   * @throws Error when the name is taken and conflicts are errors
+   */
+  private claim_name(registration: RouteRegistration): void {
+    const name = registration.options?.name;
+    if (name === undefined) return;
+
+    if (this.named_routes.has(name) && this.route_conflicts !== 'off') {
+      const message = `Route name "${name}" is already registered`;
+      if (this.route_conflicts === 'error') {
+        throw new Error(message);
+      }
+      console.warn(message);
+    }
+    this.named_routes.set(name, registration);
   }
 
   /**
@@ -87,25 +393,109 @@ class RouterImpl implements Router {
   }
 
   /**
-   * Create a route context from a BunRequest.
+   * Validate request inputs against the route schema.
+   * Collects issues from every input before failing so clients see all problems at once.
+   * @param schema - Route input schemas
+   * @param inputs - Raw request inputs keyed by location
+   * @returns Promise resolving to the validated (and coerced) inputs
+   * @throws ValidationError when any input fails validation
+   */
+  private async validate_inputs(
+    schema: RouteSchema,
+    inputs: Record<ValidationLocation, unknown>
+  ): Promise<Record<ValidationLocation, unknown>> {
+    const output = { ...inputs };
+    const issues: ValidationIssue[] = [];
+    let status = 400;
+
+    for (const location of ['params', 'query', 'headers', 'body'] as const) {
+      const location_schema = schema[location];
+      if (!location_schema) continue;
+
+      const result = await validate_schema(location_schema, inputs[location], {
+        // Everything except the body arrives as strings
+        coerce: location !== 'body'
+      });
+
+      if (result.issues) {
+        issues.push(...to_validation_issues(location, result.issues));
+        // Well-formed requests with an invalid body are unprocessable (422)
+        if (location === 'body' && issues.length === result.issues.length) {
+          status = 422;
+        }
+      } else {
+        output[location] = result.value;
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new ValidationError(issues, status);
+    }
+
+    return output;
+  }
+
+  /**
+   * Validate a handler result against the response schema for its status code.
+   * @param result - Value returned from the middleware chain
+   * @param status - Response status code
+   * @param response_schemas - Response schemas keyed by status code
+   * @returns Promise resolving to the validated result (unknown fields stripped)
+   * @throws ValidationError in strict mode, Error in strip mode
+   */
+  private async validate_response(
+    result: any,
+    status: number,
+    response_schemas: ResponseSchemaMap
+  ): Promise<any> {
+    const schema = response_schemas[status];
+    if (!schema || this.response_validation === 'off') {
+      return result;
+    }
+
+    const outcome = await validate_schema(schema, result);
+    if (!outcome.issues) {
+      return outcome.value;
+    }
+
+    const issues = to_validation_issues('response', outcome.issues);
+    if (this.response_validation === 'strict') {
+      throw new ValidationError(issues, 500, 'Response validation failed');
+    }
+
+    // Never send a mismatching body; keep details out of the response
+    const summary = issues
+      .map((issue) => `${issue.path.join('.') || '(root)'} ${issue.message}`)
+      .join('; ');
+    throw new Error(`Response validation failed: ${summary}`);
+  }
+
+  /**
+   * Create a route context from a BunRequest. Inputs are not validated yet;
+   * see `validate_context()`.
    * @param request - Bun request object with native params and cookies
+   * @param server - Bun server that received the request (absent for `fetch()`)
    * @returns Promise resolving to route context
    */
   private async create_route_context<TPath extends string>(
-    request: BunRequest<TPath>
+    request: BunRequest<TPath>,
+    server?: BunServer<unknown>
   ): Promise<RouteContext<TPath>> {
     const url = new URL(request.url);
     const query: Record<string, string> = {};
+    const headers = Object.fromEntries(request.headers.entries());
+
+    const request_id = this.generate_request_id();
 
     // Initialize context for each request
     Context.init();
     Context.set({
-      request_id: this.generate_request_id(),
+      request_id,
       start_time: Date.now(),
       request: {
         method: request.method,
         url: request.url,
-        headers: Object.fromEntries(request.headers.entries())
+        headers
       }
     });
 
@@ -118,9 +508,14 @@ class RouterImpl implements Router {
     let body: any = null;
     const content_type = request.headers.get('content-type')?.toLowerCase();
 
+    let malformed_json = false;
+
     if (request.method !== 'GET' && request.method !== 'HEAD') {
       if (content_type?.includes('application/json')) {
-        body = await request.json().catch(() => null);
+        body = await request.json().catch(() => {
+          malformed_json = true;
+          return null;
+        });
       } else if (content_type?.includes('application/x-www-form-urlencoded')) {
         const form_data = await request.formData();
         body = Object.fromEntries(form_data);
@@ -140,14 +535,80 @@ class RouterImpl implements Router {
       redirect: undefined
     };
 
-    return {
+    const context = {
       request,
+      ip: server?.requestIP(request)?.address,
       params: request.params,
       query,
       body,
+      headers,
       cookies: request.cookies,
-      set
-    };
+      set,
+      state: {},
+      log: this.logger.child({
+        request_id,
+        method: request.method,
+        path: url.pathname
+      }),
+      on_response: (callback) => {
+        response_callbacks.get(context)?.push(callback);
+      },
+      sse: (source, options) => sse(request, source, options)
+    } as RouteContext<TPath>;
+    response_callbacks.set(context, []);
+    if (malformed_json) malformed_json_contexts.add(context);
+    return context;
+  }
+
+  /**
+   * Validate a route context's inputs against the route schema, replacing
+   * them with the validated (and coerced) values.
+   * Runs in the middleware chain after global middleware, so validation
+   * failures go through `error_handler()`, `on_error` and `on_response`
+   * like any other error.
+   * @param context - Route context to validate
+   * @param schema - Route input schemas
+   * @throws ValidationError when inputs fail schema validation
+   */
+  private async validate_context(
+    context: RouteContext<string>,
+    schema: RouteSchema
+  ): Promise<void> {
+    if (malformed_json_contexts.has(context) && schema.body) {
+      throw new ValidationError(
+        [{ location: 'body', path: [], message: 'Malformed JSON' }],
+        400
+      );
+    }
+
+    const inputs = await this.validate_inputs(schema, {
+      params: context.params,
+      // Repeated query keys are kept so array schemas can validate them
+      query: schema.query
+        ? this.collect_query(context.request.url)
+        : context.query,
+      headers: context.headers,
+      body: context.body
+    });
+    Object.assign(context, inputs);
+  }
+
+  /**
+   * Collect query parameters for schema validation.
+   * Repeated keys become arrays so array schemas can see every value.
+   * @param url - Request URL
+   * @returns Query object with string or string[] values
+   */
+  private collect_query(url: string): Record<string, string | string[]> {
+    const query: Record<string, string | string[]> = {};
+    for (const [key, value] of new URL(url).searchParams) {
+      const previous = Object.hasOwn(query, key) ? query[key] : undefined;
+      query[key] =
+        previous === undefined
+          ? value
+          : [...(Array.isArray(previous) ? previous : [previous]), value];
+    }
+    return query;
   }
 
   /**
@@ -167,6 +628,11 @@ class RouterImpl implements Router {
       return Response.redirect(set.redirect, set.status);
     }
 
+    // Pass through responses, files, binary data and streams
+    if (is_raw_body(result)) {
+      return this.build_raw_response(result, set);
+    }
+
     // Handle different content types
     let body: string | Uint8Array | null = null;
     const headers: Record<string, string> = { ...set.headers };
@@ -228,6 +694,10 @@ class RouterImpl implements Router {
     // Handle null/undefined results
     if (result === null || result === undefined) {
       body = null;
+    } else if (body !== null) {
+      headers['Content-Length'] = String(
+        typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength
+      );
     }
 
     // Set cache headers
@@ -245,6 +715,69 @@ class RouterImpl implements Router {
     });
   }
 
+  /**
+   * Build a response from a raw body without serializing it.
+   * A returned `Response` keeps its own status and headers; `set.headers` only
+   * fills in headers it does not define. Other bodies use `set.status` and take
+   * their Content-Type from `set.headers`, the image content type, the Blob's
+   * type, or fall back to `application/octet-stream`.
+   * @param result - Raw handler result
+   * @param set - Response configuration
+   * @returns Response with merged headers
+   */
+  private build_raw_response(
+    result: RawResponseBody,
+    set: ResponseSetter
+  ): Response {
+    const cache_control = set.cache
+      ? `public, max-age=${this.parse_cache_duration(set.cache)}`
+      : undefined;
+
+    if (result instanceof Response) {
+      const extra = Object.entries(set.headers).filter(
+        ([name]) => !result.headers.has(name)
+      );
+      if (cache_control && !result.headers.has('Cache-Control')) {
+        extra.push(['Cache-Control', cache_control]);
+      }
+      if (extra.length === 0) {
+        return result;
+      }
+
+      // Headers of a constructed Response may be immutable, so copy it
+      const headers = new Headers(result.headers);
+      for (const [name, value] of extra) {
+        headers.set(name, value);
+      }
+      return new Response(result.body, {
+        status: result.status,
+        statusText: result.statusText,
+        headers
+      });
+    }
+
+    const headers = new Headers(set.headers);
+    if (!headers.has('Content-Type')) {
+      if (
+        set.content === 'png' ||
+        set.content === 'svg' ||
+        set.content === 'gif' ||
+        set.content === 'webp'
+      ) {
+        headers.set('Content-Type', `image/${set.content}`);
+      } else if (result instanceof Blob && result.type) {
+        headers.set('Content-Type', result.type);
+      } else {
+        headers.set('Content-Type', 'application/octet-stream');
+      }
+    }
+    if (cache_control) {
+      headers.set('Cache-Control', cache_control);
+    }
+
+    return new Response(result, { status: set.status, headers });
+  }
+
   /**
    * Parse cache duration string into seconds.
    * @param duration - Cache duration string (e.g., '1h', '30d', '7d')
@@ -275,368 +808,1076 @@ class RouterImpl implements Router {
   }
 
   /**
-   * Wrap a route handler with middleware execution and response building.
+   * Wrap a route handler with lifecycle hooks, middleware execution and
+   * response building.
    * @param handler - Route handler function
    * @param middlewares - Array of middleware functions
+   * @param options - Optional route options (input schemas and route hooks)
+   * @param hooks - Hooks of the routers the route was mounted from
    * @returns Bun-compatible route handler
    */
   private wrap_handler<TPath extends string>(
-    handler: RouteHandler<TPath>,
-    middlewares: Middleware[]
-  ): (req: BunRequest<TPath>) => Promise<Response> {
-    return async (req: BunRequest<TPath>): Promise<Response> => {
+    handler: RouteHandler<TPath, any>,
+    middlewares: Middleware[],
+    options?: RouteOptions,
+    hooks?: LifecycleHooks
+  ): (
+    req: BunRequest<TPath>,
+    server?: BunServer<unknown>
+  ) => Promise<Response> {
+    const { on_request, before_handle, after_handle, on_response, on_error } =
+      merge_hooks(this.hooks, hooks, options);
+
+    // Validate inputs after global middleware (CORS, error handling) has run
+    const schema = options;
+    const validation: Middleware[] =
+      schema?.body || schema?.query || schema?.params || schema?.headers
+        ? [
+            async (context, next) => {
+              await this.validate_context(context, schema);
+              await next();
+            }
+          ]
+        : [];
+
+    // Run route hooks around the handler, inside the middleware chain
+    const run_handler = async (context: RouteContext<string>) => {
+      for (const hook of before_handle) {
+        const early = await hook(context);
+        if (early !== undefined) return early;
+      }
+
+      let result = await (handler as RouteHandler<string>)(context);
+      for (const hook of after_handle) {
+        const replaced = await hook(context, result);
+        if (replaced !== undefined) result = replaced;
+      }
+      return result;
+    };
+
+    return async (
+      req: BunRequest<TPath>,
+      server?: BunServer<unknown>
+    ): Promise<Response> => {
+      const request = req as BunRequest<string>;
+      let context: RouteContext<string> | undefined;
+      let response: Response | undefined;
+
       try {
-        // Create route context
-        const context = await this.create_route_context(req);
+        for (const hook of on_request) {
+          const early = await hook(request);
+          if (early instanceof Response) {
+            response = early;
+            break;
+          }
+        }
 
-        // Combine global and route-specific middleware
+        if (!response) {
+          context = await this.create_route_context(request, server);
+
+          // Combine global and route-specific middleware, validating inputs
+          // between them
+          const all_middlewares = [
+            ...this.global_middlewares,
+            ...validation,
+            ...middlewares
+          ];
+
+          // Execute middleware chain
+          let result = await this.execute_middleware_chain(
+            context,
+            all_middlewares,
+            run_handler
+          );
+
+          // Check output against the response schema for the final status
+          if (options?.response && !is_raw_body(result)) {
+            result = await this.validate_response(
+              result,
+              context.set.status,
+              options.response
+            );
+          }
+
+          // Build response
+          response = await this.build_response(
+            result,
+            context.set,
+            context.cookies
+          );
+        }
+      } catch (error) {
+        response = await this.handle_error(error, request, context, on_error);
+      }
+
+      for (const hook of on_response) {
+        const replaced = await hook(response, request);
+        if (replaced instanceof Response) response = replaced;
+      }
+      if (context) {
+        await run_response_callbacks(context, response);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Wrap the registrations sharing a Bun route and method. Routes with param
+   * constraints are tried in registration order, then the last unconstrained
+   * route; requests matching none get the not-found response.
+   * @param variants - Registrations with their path variant, in registration order
+   * @param target - Path variant the Bun route is registered under
+   * @returns Bun-compatible route handler
+   */
+  private wrap_registrations(
+    variants: RouteVariant[],
+    target: ParsedRoutePath
+  ): (
+    req: BunRequest<string>,
+    server?: BunServer<unknown>
+  ) => Promise<Response> {
+    const is_constrained = (route: ParsedRoutePath) =>
+      Object.keys(route.constraints).length > 0;
+    const unconstrained = variants.filter(
+      ({ route }) => !is_constrained(route)
+    );
+
+    const candidates = [
+      ...variants.filter(({ route }) => is_constrained(route)),
+      ...unconstrained.slice(-1)
+    ].map(({ registration, route }) => ({
+      route,
+      handler: this.wrap_handler(
+        registration.handler,
+        registration.middlewares,
+        registration.options,
+        registration.hooks
+      )
+    }));
+
+    // Wildcard values are read from the path, so those routes always wrap
+    const has_wildcard = target.keys.includes('*');
+    const [only] = candidates;
+    if (
+      only &&
+      candidates.length === 1 &&
+      !has_wildcard &&
+      !is_constrained(only.route) &&
+      only.route.pattern === target.path
+    ) {
+      return only.handler;
+    }
+
+    return async (
+      req: BunRequest<string>,
+      server?: BunServer<unknown>
+    ): Promise<Response> => {
+      // Bun names params after the target path; read them by position
+      const raw = req.params as Record<string, string>;
+      const values = target.keys.map((key) =>
+        key === '*'
+          ? read_wildcard(target.path, new URL(req.url).pathname)
+          : (raw[key] as string)
+      );
+
+      for (const { route, handler } of candidates) {
+        const params = apply_param_constraints(
+          route.constraints,
+          Object.fromEntries(
+            route.names.map((name, index) => [name, values[index] as string])
+          )
+        );
+        if (!params) continue;
+
+        Object.defineProperty(req, 'params', {
+          value: params,
+          configurable: true
+        });
+        return handler(req, server);
+      }
+
+      return this.respond_not_found(req, server);
+    };
+  }
+
+  /**
+   * Convert an error thrown while handling a request into a response.
+   * `on_error` hooks run first, in order; the first one returning a value
+   * answers the request. An `HttpError` otherwise answers with its status,
+   * headers and JSON body.
+   * @param error - Thrown error
+   * @param request - Request being handled
+   * @param context - Route context, when it was created before the error
+   * @param on_error - Error hooks to run
+   * @returns Hook response, error response or generic 500 response
+   */
+  private async handle_error(
+    error: unknown,
+    request: BunRequest<string>,
+    context: RouteContext<string> | undefined,
+    on_error: OnErrorHook[]
+  ): Promise<Response> {
+    // Keep headers set by middleware (CORS, security headers) on error responses
+    const set: ResponseSetter = context?.set ?? {
+      status: 500,
+      content: 'auto',
+      headers: {}
+    };
+    const status = (error as { status?: unknown } | null)?.status;
+    set.status = typeof status === 'number' ? status : 500;
+    set.redirect = undefined;
+    if (error instanceof HttpError) {
+      Object.assign(set.headers, error.headers);
+    }
+
+    for (const hook of on_error) {
+      const result = await hook(error, { request, set });
+      if (result !== undefined) {
+        return this.build_response(result, set, request.cookies);
+      }
+    }
+
+    if (error instanceof ValidationError) {
+      set.content = 'json';
+      return this.build_response(
+        {
+          error: error.message,
+          status: error.status,
+          issues: error.issues
+        },
+        set,
+        request.cookies
+      );
+    }
+    if (error instanceof HttpError) {
+      if (!error.expose) console.error('Route execution error:', error);
+      set.status = error.status;
+      set.content = 'json';
+      return this.build_response(error.toJSON(), set, request.cookies);
+    }
+    console.error('Route execution error:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+
+  /**
+   * Wrap a WebSocket route in an upgrade handler.
+   * The middleware chain runs first, so middleware can reject the upgrade by
+   * returning a value; headers set by middleware are sent with the upgrade.
+   * @param route - WebSocket route handlers
+   * @param middlewares - Route-specific middleware
+   * @returns Bun-compatible route handler
+   */
+  private wrap_websocket(
+    route: WebSocketRoute<any, any, any>,
+    middlewares: Middleware[]
+  ): (
+    req: BunRequest<string>,
+    server?: BunServer<unknown>
+  ) => Promise<Response | undefined> {
+    return async (req, server) => {
+      let context: RouteContext<string> | undefined;
+      let response: Response;
+
+      try {
+        context = await this.create_route_context(req, server);
         const all_middlewares = [...this.global_middlewares, ...middlewares];
+        let upgraded = false;
 
-        // Execute middleware chain
         const result = await this.execute_middleware_chain(
-          context as RouteContext<string>,
+          context,
           all_middlewares,
-          handler as RouteHandler<string>
+          async (upgrade_context) => {
+            const data = await route.upgrade?.(upgrade_context);
+            upgraded =
+              server?.upgrade(req, {
+                data: create_connection_data(route, upgrade_context, data),
+                // Bun rejects an empty plain object here
+                headers: new Headers(upgrade_context.set.headers)
+              }) ?? false;
+
+            if (!upgraded) {
+              upgrade_context.set.status = 426;
+              upgrade_context.set.headers.Upgrade = 'websocket';
+              return 'Upgrade Required';
+            }
+          }
         );
 
-        // Build and return response
-        return await this.build_response(result, context.set, context.cookies);
+        // Bun sends the 101 response itself after a successful upgrade
+        if (upgraded) return undefined;
+
+        response = await this.build_response(
+          result,
+          context.set,
+          context.cookies
+        );
       } catch (error) {
-        console.error('Route execution error:', error);
-        return new Response('Internal Server Error', { status: 500 });
+        response = await this.handle_error(
+          error,
+          req,
+          context,
+          this.hooks.on_error
+        );
+      }
+
+      // Rejected upgrades reach `context.on_response()` callbacks (logging)
+      if (context) {
+        await run_response_callbacks(context, response);
       }
+      return response;
     };
   }
 
   /**
    * Build Bun-compatible routes object from registered routes.
    * Groups routes by path and method for optimal Bun.serve performance.
+   * The result is reused until another route is registered.
    * @returns Bun routes object
    */
   build_routes(): BunRoutes {
+    if (this.built_routes) {
+      return this.built_routes;
+    }
+
     const routes: BunRoutes = {};
 
-    // Group routes by path
-    const path_groups = new Map<string, Map<string, RouteRegistration>>();
+    // Group route variants by path; paths differing only in param names or
+    // constraints share one Bun route
+    const path_groups = new Map<string, Map<string, RouteVariant[]>>();
+    const bun_paths = new Map<string, ParsedRoutePath>();
 
     for (const registration of this.registrations) {
-      if (!path_groups.has(registration.path)) {
-        path_groups.set(registration.path, new Map());
-      }
-      const methods = path_groups.get(registration.path);
-      if (methods) {
-        methods.set(registration.method, registration);
+      for (const route of expand_route_path(registration.path)) {
+        if (!bun_paths.has(route.shape)) {
+          bun_paths.set(route.shape, route);
+          path_groups.set(route.shape, new Map());
+        }
+        const methods = path_groups.get(route.shape);
+        if (methods) {
+          methods.set(registration.method, [
+            ...(methods.get(registration.method) ?? []),
+            { registration, route }
+          ]);
+        }
       }
     }
 
     // Build Bun routes
-    for (const [path, methods] of path_groups) {
-      if (methods.size === 1) {
-        // Single method - use simple handler
-        const registration = Array.from(methods.values())[0];
-        if (registration) {
-          routes[path] = this.wrap_handler(
-            registration.handler,
-            registration.middlewares
-          );
-        }
-      } else {
-        // Multiple methods - use method object
-        const route_def: BunRouteDefinition = {};
+    for (const [shape, methods] of path_groups) {
+      const target = bun_paths.get(shape) as ParsedRoutePath;
+      const all = methods.get('ALL');
+
+      if (all && methods.size === 1) {
+        // Only 'ALL' - a plain handler answers every method
+        routes[target.path] = this.wrap_registrations(all, target);
+        continue;
+      }
 
-        for (const [method, registration] of methods) {
-          const wrapped = this.wrap_handler(
-            registration.handler,
-            registration.middlewares
-          );
+      // Method object; methods without a handler fall through to the
+      // server's fallback, which answers 405 or OPTIONS
+      const route_def: BunRouteDefinition = {};
 
-          if (method === 'ALL') {
-            // For 'ALL', add to all methods
-            route_def.GET = wrapped;
-            route_def.POST = wrapped;
-            route_def.PUT = wrapped;
-            route_def.PATCH = wrapped;
-            route_def.DELETE = wrapped;
-            route_def.OPTIONS = wrapped;
-            route_def.HEAD = wrapped;
-          } else {
-            route_def[method as keyof BunRouteDefinition] = wrapped;
-          }
+      for (const [method, variants] of methods) {
+        if (method === 'ALL') continue;
+        route_def[method as keyof BunRouteDefinition] = this.wrap_registrations(
+          variants,
+          target
+        );
+      }
+
+      // HEAD is answered by GET (the body is dropped when sending), even
+      // when an 'ALL' handler is registered on the same path
+      route_def.HEAD ??= route_def.GET;
+
+      if (all) {
+        // 'ALL' fills in every method without an explicit handler
+        const wrapped = this.wrap_registrations(all, target);
+        for (const method of HTTP_METHODS) {
+          route_def[method] ??= wrapped;
         }
+      }
 
-        routes[path] = route_def;
+      routes[target.path] = route_def;
+    }
+
+    // WebSocket routes upgrade GET requests; other requests on the same path
+    // still reach the HTTP routes
+    for (const registration of this.websocket_registrations) {
+      const upgrade = this.wrap_websocket(
+        registration.route,
+        registration.middlewares
+      );
+      // WebSocket routes use the full pattern (optional segments present)
+      const { shape, path } = expand_route_path(registration.path).at(
+        -1
+      ) as ParsedRoutePath;
+      const ws_path = bun_paths.get(shape)?.path ?? path;
+      const existing = routes[ws_path];
+
+      if (typeof existing === 'function') {
+        routes[ws_path] = (req, server) =>
+          is_websocket_upgrade(req)
+            ? upgrade(req, server)
+            : existing(req, server);
+      } else if (existing && !(existing instanceof Response)) {
+        const http_get = existing.GET;
+        existing.GET =
+          typeof http_get === 'function'
+            ? (req, server) =>
+                is_websocket_upgrade(req)
+                  ? upgrade(req, server)
+                  : http_get(req, server)
+            : upgrade;
+      } else {
+        routes[ws_path] = { GET: upgrade };
       }
     }
 
+    this.built_routes = routes;
     return routes;
   }
 
   /**
-   * Register a GET route.
-   * @param path - Route path pattern
-   * @param handler - Route handler function
+   * Set the handler for requests no route matches.
+   * @param handler - Route handler run with `set.status` preset to 404
+   * @returns This router for chaining
    */
-  get<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  not_found(handler: RouteHandler<string, RouteSchema, any, any>): this {
+    this.not_found_handler = handler;
+    return this;
+  }
 
   /**
-   * Register a GET route with middleware.
-   * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * Answer a request no route handled (the `fetch` fallback of Bun.serve).
+   * Responses run through global middleware and `build_response` like any
+   * route. When routes match the path but none accepts the method, OPTIONS
+   * requests get `204` and other methods `405`, both with an `Allow` header
+   * (so CORS preflights work without OPTIONS routes). Other requests go to
+   * the `not_found` handler, or get a plain `404`.
+   * @param request - Unmatched request
+   * @param server - Bun server that received the request
+   * @returns Promise resolving to the fallback response
+   * @internal
    */
-  get<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  async fallback(
+    request: Request,
+    server?: BunServer<unknown>
+  ): Promise<Response> {
+    const routes = this.build_routes();
+    if (!this.matcher || this.matcher_routes !== routes) {
+      this.matcher = create_route_matcher(routes);
+      this.matcher_routes = routes;
+    }
+
+    const allowed = new Set<string>();
+    for (const route of this.matcher(new URL(request.url).pathname)) {
+      for (const method of route_methods(route.handler) ?? HTTP_METHODS) {
+        allowed.add(method);
+      }
+    }
+
+    if (allowed.size === 0) {
+      return this.respond_not_found(request, server);
+    }
+
+    allowed.add('OPTIONS');
+    const allow = HTTP_METHODS.filter((method) => allowed.has(method)).join(
+      ', '
+    );
+
+    return this.respond_unrouted(
+      request,
+      ({ set }) => {
+        set.headers.Allow = allow;
+        if (request.method === 'OPTIONS') {
+          set.status = 204;
+          return null;
+        }
+        set.status = 405;
+        return 'Method Not Allowed';
+      },
+      server
+    );
+  }
+
+  /**
+   * Answer a request with the `not_found` handler (or a plain 404).
+   * @param request - Unmatched request
+   * @param server - Bun server that received the request
+   * @returns Promise resolving to the not-found response
+   */
+  private respond_not_found(
+    request: Request,
+    server?: BunServer<unknown>
+  ): Promise<Response> {
+    return this.respond_unrouted(
+      request,
+      (context) => {
+        context.set.status = 404;
+        return this.not_found_handler
+          ? this.not_found_handler(context)
+          : 'Not Found';
+      },
+      server
+    );
+  }
+
+  /**
+   * Run a handler for a request no route answered, after global middleware.
+   * @param request - Unmatched request
+   * @param handler - Handler producing the response
+   * @param server - Bun server that received the request
+   * @returns Promise resolving to the response, including cookie changes
+   */
+  private async respond_unrouted(
+    request: Request,
+    handler: RouteHandler<string>,
+    server?: BunServer<unknown>
+  ): Promise<Response> {
+    const cookies = prepare_request(request, {});
+    const response = await this.wrap_handler(handler, [])(
+      request as BunRequest<string>,
+      server
+    );
+    return with_cookies(response, cookies);
+  }
 
   /**
-   * Register a GET route (overloaded implementation).
+   * Parse registration arguments and add the route.
+   * Accepts `(handler, options?)` or `(middlewares, handler, options?)`.
+   * @param method - HTTP method (GET, POST, etc.)
+   * @param path - Route path pattern
+   * @param args - Remaining registration arguments
+   * @returns This router for chaining
    */
-  get<Path extends string>(path: Path, arg2: any, arg3?: any): void {
+  private register_route(method: string, path: string, args: any[]): this {
+    const [arg2, arg3, arg4] = args;
     if (Array.isArray(arg2)) {
-      this.add_route('GET', path, arg3, arg2);
+      this.add_route(method, path, arg3, arg2, arg4);
     } else {
-      this.add_route('GET', path, arg2);
+      this.add_route(method, path, arg2, [], arg3);
     }
+    return this;
+  }
+
+  /**
+   * Register a GET route.
+   * @param path - Route path pattern
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
+   */
+  get(path: string, ...args: any[]): this {
+    return this.register_route('GET', path, args);
   }
 
   /**
    * Register a POST route.
    * @param path - Route path pattern
-   * @param handler - Route handler function
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  post<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  post(path: string, ...args: any[]): this {
+    return this.register_route('POST', path, args);
+  }
 
   /**
-   * Register a POST route with middleware.
+   * Register a PUT route.
    * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  post<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  put(path: string, ...args: any[]): this {
+    return this.register_route('PUT', path, args);
+  }
 
   /**
-   * Register a POST route (overloaded implementation).
+   * Register a PATCH route.
+   * @param path - Route path pattern
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  post<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('POST', path, arg3, arg2);
-    } else {
-      this.add_route('POST', path, arg2);
-    }
+  patch(path: string, ...args: any[]): this {
+    return this.register_route('PATCH', path, args);
   }
 
   /**
-   * Register a PUT route.
+   * Register a DELETE route.
    * @param path - Route path pattern
-   * @param handler - Route handler function
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  put<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  delete(path: string, ...args: any[]): this {
+    return this.register_route('DELETE', path, args);
+  }
 
   /**
-   * Register a PUT route with middleware.
+   * Register an OPTIONS route.
    * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  put<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  options(path: string, ...args: any[]): this {
+    return this.register_route('OPTIONS', path, args);
+  }
 
   /**
-   * Register a PUT route (overloaded implementation).
+   * Register a HEAD route.
+   * @param path - Route path pattern
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  put<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('PUT', path, arg3, arg2);
-    } else {
-      this.add_route('PUT', path, arg2);
-    }
+  head(path: string, ...args: any[]): this {
+    return this.register_route('HEAD', path, args);
   }
 
   /**
-   * Register a PATCH route.
+   * Register a route for all HTTP methods.
    * @param path - Route path pattern
-   * @param handler - Route handler function
+   * @param args - `(handler, options?)` or `(middlewares, handler, options?)`
+   * @returns This router, typed with the new route
    */
-  patch<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  all(path: string, ...args: any[]): this {
+    return this.register_route('ALL', path, args);
+  }
 
   /**
-   * Register a PATCH route with middleware.
+   * Register a WebSocket route.
+   * Accepts `(route)` or `(middlewares, route)`.
    * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * @param args - `(route)` or `(middlewares, route)`
+   * @returns This router for chaining
    */
-  patch<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  ws(path: string, ...args: any[]): this {
+    const [middlewares, route] = Array.isArray(args[0])
+      ? [args[0] as Middleware[], args[1] as WebSocketRoute<any, any, any>]
+      : [[], args[0] as WebSocketRoute<any, any, any>];
+
+    this.claim_route('WS', path);
+    this.built_routes = undefined;
+    this.websocket_registrations.push({ path, route, middlewares });
+    return this;
+  }
 
   /**
-   * Register a PATCH route (overloaded implementation).
+   * Build the URL path of a named route.
+   * @param name - Route name given in the route options
+   * @param params - Param values (optional segments are left out when missing)
+   * @param options - Query parameters to append
+   * @returns URL path, including mount prefixes and query string
+   * @throws Error when the name is unknown or a required param is missing
    */
-  patch<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('PATCH', path, arg3, arg2);
-    } else {
-      this.add_route('PATCH', path, arg2);
+  url_for(
+    name: string,
+    params: Record<string, unknown> = {},
+    options: UrlForOptions = {}
+  ): string {
+    const registration = this.named_routes.get(name);
+    if (!registration) {
+      throw new Error(`Unknown route name "${name}"`);
+    }
+
+    const path = fill_route_path(registration.path, params);
+    const pairs: string[] = [];
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        pairs.push(
+          `${encodeURIComponent(key)}=${encodeURIComponent(String(item))}`
+        );
+      }
     }
+
+    return pairs.length > 0 ? `${path}?${pairs.join('&')}` : path;
   }
 
   /**
-   * Register a DELETE route.
-   * @param path - Route path pattern
-   * @param handler - Route handler function
+   * List registered routes: HTTP routes in registration order, then
+   * WebSocket routes. Global middleware is not included.
+   * @returns Route descriptions
    */
-  delete<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  routes(): RouteInfo[] {
+    const names = (middlewares: Middleware[]) =>
+      middlewares.map((middleware) => middleware.name || 'anonymous');
+
+    return [
+      ...this.registrations.map((registration) => ({
+        method: registration.method,
+        path: registration.path,
+        middlewares: names(registration.middlewares),
+        options: registration.options
+      })),
+      ...this.websocket_registrations.map((registration) => ({
+        method: 'WS',
+        path: registration.path,
+        middlewares: names(registration.middlewares)
+      }))
+    ];
+  }
 
   /**
-   * Register a DELETE route with middleware.
-   * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * Register routes under a shared prefix, mounted like a sub-router.
+   * @param prefix - Path prefix for the group
+   * @param args - `(callback)` or `(middlewares, callback)`
+   * @returns This router, typed with the group's routes
    */
-  delete<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  group(prefix: string, ...args: any[]): this {
+    const [middlewares, callback] = Array.isArray(args[0])
+      ? [args[0] as Middleware[], args[1] as (group: Router) => unknown]
+      : [[], args[0] as (group: Router) => unknown];
+
+    const group = new RouterImpl({
+      response_validation: this.response_validation,
+      route_conflicts: this.route_conflicts
+    });
+    group.plugins = new Set(this.plugins);
+    callback(group);
+    return this.use(prefix, middlewares, group);
+  }
 
   /**
-   * Register a DELETE route (overloaded implementation).
+   * Start a fluent chain registering several methods on one path.
+   * @param path - Route path pattern
+   * @returns Chain whose methods register handlers for the path
    */
-  delete<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('DELETE', path, arg3, arg2);
-    } else {
-      this.add_route('DELETE', path, arg2);
+  route(path: string): RouteChain<string, any> {
+    const chain: Record<string, (...args: any[]) => unknown> = {};
+    for (const method of CHAIN_METHODS) {
+      chain[method] = (...args: any[]) => {
+        this.register_route(method.toUpperCase(), path, args);
+        return chain;
+      };
     }
+    return chain as unknown as RouteChain<string, any>;
   }
 
   /**
-   * Register an OPTIONS route.
-   * @param path - Route path pattern
-   * @param handler - Route handler function
+   * Add a lifecycle hook for every route of this router (and routes of
+   * routers it is mounted on). Hooks run in the order they are added.
+   * @param key - Lifecycle stage
+   * @param hook - Hook function
+   * @returns This router for chaining
    */
-  options<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  private add_hook<TKey extends keyof HookLists>(
+    key: TKey,
+    hook: HookLists[TKey][number]
+  ): this {
+    (this.hooks[key] as unknown[]).push(hook);
+    this.built_routes = undefined;
+    return this;
+  }
 
   /**
-   * Register an OPTIONS route with middleware.
-   * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * Add a hook run when a request arrives, before its context is created.
+   * @param hook - Hook returning a `Response` to answer early
+   * @returns This router for chaining
    */
-  options<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  on_request(hook: OnRequestHook): this {
+    return this.add_hook('on_request', hook);
+  }
 
   /**
-   * Register an OPTIONS route (overloaded implementation).
+   * Add a hook run after middleware, right before the handler.
+   * @param hook - Hook returning a value to skip the handler
+   * @returns This router for chaining
    */
-  options<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('OPTIONS', path, arg3, arg2);
-    } else {
-      this.add_route('OPTIONS', path, arg2);
+  before_handle(hook: BeforeHandleHook<any>): this {
+    return this.add_hook('before_handle', hook);
+  }
+
+  /**
+   * Add a hook run after the handler.
+   * @param hook - Hook returning a value to replace the handler result
+   * @returns This router for chaining
+   */
+  after_handle(hook: AfterHandleHook<any>): this {
+    return this.add_hook('after_handle', hook);
+  }
+
+  /**
+   * Add a hook run with the final response of every request.
+   * @param hook - Hook returning a `Response` to replace it
+   * @returns This router for chaining
+   */
+  on_response(hook: OnResponseHook): this {
+    return this.add_hook('on_response', hook);
+  }
+
+  /**
+   * Add a hook run when handling a request throws.
+   * @param hook - Hook returning a value to send instead of the default error response
+   * @returns This router for chaining
+   */
+  on_error(hook: OnErrorHook): this {
+    return this.add_hook('on_error', hook);
+  }
+
+  /**
+   * Install a plugin on a fresh router and mount it under the prefix.
+   * Setups run in registration order: a sync setup is mounted right away
+   * unless an earlier plugin is still installing.
+   * @param plugin - Plugin to install
+   * @param options - Plugin options, plus `prefix` for its routes
+   * @returns This router, typed with the plugin's routes and context
+   * @throws Error when a dependency has not been registered
+   */
+  register(
+    plugin: Plugin<any, any, boolean>,
+    options: RegisterOptions<string> & Record<string, any> = {}
+  ): this {
+    if (this.plugins.has(plugin.name)) return this;
+
+    for (const dependency of plugin.dependencies ?? []) {
+      if (!this.plugins.has(dependency)) {
+        throw new Error(
+          `Plugin "${plugin.name}" requires "${dependency}" to be registered first`
+        );
+      }
     }
+    this.plugins.add(plugin.name);
+
+    const install = (): Promise<void> | undefined => {
+      const scope = new RouterImpl({
+        response_validation: this.response_validation,
+        route_conflicts: this.route_conflicts
+      });
+      // Plugins registered inside the scope may depend on those registered here
+      scope.plugins = new Set(this.plugins);
+
+      const result = plugin.setup(scope, options);
+      const mount = () =>
+        this.mount_plugin(scope, options.prefix ?? '', plugin.encapsulate);
+
+      if (result instanceof Promise || scope.pending_plugins) {
+        return Promise.resolve(result)
+          .then(() => scope.ready())
+          .then(mount);
+      }
+      mount();
+    };
+
+    this.pending_plugins = this.pending_plugins
+      ? this.pending_plugins.then(install)
+      : install();
+    return this;
   }
 
   /**
-   * Register a HEAD route.
-   * @param path - Route path pattern
-   * @param handler - Route handler function
+   * Mount an installed plugin's router.
+   * @param scope - Router the plugin was installed on
+   * @param prefix - Path prefix for its routes
+   * @param encapsulate - False to apply its middleware and hooks to this router
+   */
+  private mount_plugin(
+    scope: RouterImpl,
+    prefix: string,
+    encapsulate = true
+  ): void {
+    if (!encapsulate) {
+      this.global_middlewares.push(...scope.global_middlewares);
+      for (const key of Object.keys(this.hooks) as (keyof HookLists)[]) {
+        (this.hooks[key] as unknown[]).push(...scope.hooks[key]);
+      }
+      scope.global_middlewares = [];
+      scope.hooks = merge_hooks();
+    }
+    this.use(prefix, scope);
+  }
+
+  /**
+   * Wait until plugins with an async setup are installed.
+   * @returns Promise resolving once every registered plugin is mounted
+   * @throws Error thrown by a plugin setup
    */
-  head<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  async ready(): Promise<void> {
+    while (this.pending_plugins) {
+      const pending = this.pending_plugins;
+      await pending;
+      // Plugins registered while waiting extend the chain
+      if (this.pending_plugins === pending) {
+        this.pending_plugins = undefined;
+      }
+    }
+  }
 
   /**
-   * Register a HEAD route with middleware.
-   * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * Whether plugins with an async setup are still installing.
+   * @internal
    */
-  head<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  get installing(): boolean {
+    return this.pending_plugins !== undefined;
+  }
 
   /**
-   * Register a HEAD route (overloaded implementation).
+   * Add a hook run when the server shuts down.
+   * @param hook - Shutdown hook
+   * @returns This router for chaining
    */
-  head<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('HEAD', path, arg3, arg2);
-    } else {
-      this.add_route('HEAD', path, arg2);
+  on_shutdown(hook: ShutdownHook): this {
+    this.shutdown_hooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Run the shutdown hooks, last added first. Failures are logged so every
+   * hook gets to run.
+   * @internal
+   */
+  async run_shutdown_hooks(): Promise<void> {
+    for (const hook of [...this.shutdown_hooks].reverse()) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error('Shutdown hook error:', error);
+      }
     }
   }
 
   /**
-   * Register a route for all HTTP methods.
-   * @param path - Route path pattern
-   * @param handler - Route handler function
+   * Add values to the context of every request, as global middleware.
+   * @param name_or_values - Property name, or an object of properties
+   * @param value - Property value when a name is given
+   * @returns This router, typed with the new context properties
+   * @throws Error when a name is a reserved context property
    */
-  all<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  decorate(name_or_values: string | object, value?: unknown): this {
+    const values =
+      typeof name_or_values === 'string'
+        ? { [name_or_values]: value }
+        : name_or_values;
+
+    // Reject reserved names at registration rather than on the first request
+    extend_context({} as RouteContext<string>, values);
+    return this.use(async (context, next) => {
+      Object.assign(context, values);
+      await next();
+    });
+  }
 
   /**
-   * Register a route for all HTTP methods with middleware.
-   * @param path - Route path pattern
-   * @param middlewares - Array of middleware functions
-   * @param handler - Route handler function
+   * Compute properties for each request and add them to its context,
+   * as global middleware.
+   * @param derive - Function returning the properties for a request
+   * @returns This router, typed with the derived context properties
    */
-  all<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  derive(derive: (context: any) => object | Promise<object>): this {
+    return this.use(async (context, next) => {
+      extend_context(context, await derive(context));
+      await next();
+    });
+  }
 
   /**
-   * Register a route for all HTTP methods (overloaded implementation).
+   * Generate an OpenAPI 3.1 document from the registered routes.
+   * When `options.path` is set, the document is also served at that path
+   * (and an HTML viewer at `options.viewer_path`). Served documents are
+   * generated on first request so routes registered later are included.
+   * @param options - Document metadata and serving options
+   * @returns OpenAPI document for the routes registered so far
    */
-  all<Path extends string>(path: Path, arg2: any, arg3?: any): void {
-    if (Array.isArray(arg2)) {
-      this.add_route('ALL', path, arg3, arg2);
-    } else {
-      this.add_route('ALL', path, arg2);
+  openapi(options: OpenAPIOptions): OpenAPIDocument {
+    if (options.path) {
+      let document: OpenAPIDocument | undefined;
+      this.add_route(
+        'GET',
+        options.path,
+        () => {
+          document ??= generate_openapi(this.registrations, options);
+          return document;
+        },
+        [],
+        { hide: true }
+      );
+
+      if (options.viewer_path) {
+        const html = render_openapi_viewer(options.info.title, options.path);
+        this.add_route(
+          'GET',
+          options.viewer_path,
+          ({ set }) => {
+            set.content = 'html';
+            return html;
+          },
+          [],
+          { hide: true }
+        );
+      }
     }
+
+    return generate_openapi(this.registrations, options);
   }
 
   /**
    * Add a global middleware or mount a sub-router at a path.
+   * A mounted router's middleware, and any passed at mount time, only run for
+   * its routes: they are prepended to each route's own middleware, after the
+   * parent's global middleware. Its lifecycle hooks likewise run after the
+   * parent's. Nested mounts keep the same order.
    * @param middleware_or_path - Middleware function or path prefix
-   * @param router - Optional router to mount at the path
-   */
-  use(middleware_or_path: Middleware | string, router?: Router): void {
-    if (typeof middleware_or_path === 'string' && router) {
-      // Mount sub-router at path - get all its routes and prepend path
-      const sub_router = router as RouterImpl;
-      const sub_routes = sub_router.registrations;
-
-      for (const route of sub_routes) {
-        // Prepend the mount path to each sub-route
-        const full_path = middleware_or_path + route.path;
-        this.registrations.push({
+   * @param middlewares_or_router - Router to mount, or middleware run before its routes
+   * @param router - Router to mount when middleware is given
+   * @returns This router for chaining
+   */
+  use(
+    middleware_or_path: Middleware<any> | string,
+    middlewares_or_router?: Middleware<any>[] | Router<any, any, any>,
+    router?: Router<any, any, any>
+  ): this {
+    if (typeof middleware_or_path === 'string' && middlewares_or_router) {
+      const [mount_middlewares, sub_router] = Array.isArray(
+        middlewares_or_router
+      )
+        ? [middlewares_or_router, router as RouterImpl]
+        : [[], middlewares_or_router as RouterImpl];
+
+      if (sub_router.pending_plugins) {
+        throw new Error(
+          `Cannot mount a router at ${middleware_or_path} while its plugins are installing; await its ready() first`
+        );
+      }
+
+      // Middleware scoped to the mounted routes
+      const scoped = [...mount_middlewares, ...sub_router.global_middlewares];
+      this.built_routes = undefined;
+      this.shutdown_hooks.push(...sub_router.shutdown_hooks);
+      for (const name of sub_router.plugins) {
+        this.plugins.add(name);
+      }
+
+      // Mount sub-router at path - prepend the path and scoped middleware
+      for (const route of sub_router.registrations) {
+        this.claim_route(
+          route.method,
+          middleware_or_path + route.path,
+          middleware_or_path
+        );
+        const registration = {
           ...route,
-          path: full_path
-        });
+          path: middleware_or_path + route.path,
+          middlewares: [...scoped, ...route.middlewares],
+          hooks: merge_hooks(sub_router.hooks, route.hooks)
+        };
+        this.claim_name(registration);
+        this.registrations.push(registration);
       }
 
-      // Also add sub-router's global middlewares
-      this.global_middlewares.push(...sub_router.global_middlewares);
+      for (const registration of sub_router.websocket_registrations) {
+        this.claim_route(
+          'WS',
+          middleware_or_path + registration.path,
+          middleware_or_path
+        );
+        this.websocket_registrations.push({
+          ...registration,
+          path: middleware_or_path + registration.path,
+          middlewares: [...scoped, ...registration.middlewares]
+        });
+      }
     } else {
       // Add global middleware
       this.global_middlewares.push(middleware_or_path as Middleware);
     }
+
+    return this;
   }
 }
 
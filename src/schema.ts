@@ -0,0 +1,740 @@
+import { HttpError } from './errors';
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev).
+ * Declared inline so any compatible validator (Zod, Valibot, ArkType, ...)
+ * can be used without adding a runtime dependency.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * Properties exposed by a Standard Schema under the `~standard` key.
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  /** Standard Schema version */
+  readonly version: 1;
+  /** Name of the library implementing the schema */
+  readonly vendor: string;
+  /** Validate an unknown value */
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  /** Inferred input and output types (type-level only) */
+  readonly types?:
+    | { readonly input: Input; readonly output: Output }
+    | undefined;
+}
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A single Standard Schema validation issue.
+ */
+export interface StandardSchemaIssue {
+  /** Human readable error message */
+  readonly message: string;
+  /** Path to the offending value */
+  readonly path?:
+    | ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+    | undefined;
+}
+
+/**
+ * Infer the output type of a Standard Schema.
+ * @example
+ * type User = InferSchemaOutput<typeof user_schema>;
+ */
+export type InferSchemaOutput<TSchema> = TSchema extends StandardSchemaV1
+  ? NonNullable<TSchema['~standard']['types']>['output']
+  : unknown;
+
+/**
+ * Infer the input type of a Standard Schema.
+ */
+export type InferSchemaInput<TSchema> = TSchema extends StandardSchemaV1
+  ? NonNullable<TSchema['~standard']['types']>['input']
+  : unknown;
+
+/**
+ * Options accepted by built-in schemas when parsing a value.
+ */
+export interface ParseOptions {
+  /**
+   * Coerce strings into numbers/booleans/arrays where the schema expects them.
+   * Used for query, params and headers, which always arrive as strings.
+   */
+  coerce?: boolean;
+}
+
+/**
+ * JSON Schema object (draft 2020-12, as used by OpenAPI 3.1).
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Built-in schema kinds.
+ */
+export type SchemaKind =
+  | 'any'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'literal'
+  | 'enum'
+  | 'array'
+  | 'object'
+  | 'union'
+  | 'optional'
+  | 'nullable';
+
+/**
+ * Internal check function shared by all built-in schemas.
+ * Pushes issues into the provided array and returns the (possibly coerced) value.
+ * @internal
+ */
+type SchemaCheck = (
+  value: unknown,
+  path: PropertyKey[],
+  issues: StandardSchemaIssue[],
+  options: ParseOptions
+) => unknown;
+
+/**
+ * Built-in lightweight schema. Every built-in schema is also a valid
+ * Standard Schema, so it can be used anywhere a Standard Schema is accepted.
+ * @template TOutput - The validated output type
+ */
+export interface Schema<TOutput = unknown>
+  extends StandardSchemaV1<TOutput, TOutput> {
+  /** Schema kind */
+  readonly kind: SchemaKind;
+  /** Whether the value may be omitted from its parent object */
+  readonly is_optional: boolean;
+  /** JSON Schema (draft 2020-12) equivalent, used for OpenAPI generation */
+  readonly json_schema: JsonSchema;
+  /**
+   * Validate a value synchronously.
+   * @param value - Value to validate
+   * @param options - Parse options (e.g. string coercion)
+   * @returns Standard Schema result with the parsed value or issues
+   */
+  parse(value: unknown, options?: ParseOptions): StandardSchemaResult<TOutput>;
+  /** @internal */
+  readonly check: SchemaCheck;
+}
+
+/**
+ * Schema whose value may be omitted from its parent object.
+ */
+export interface OptionalSchema<TOutput = unknown>
+  extends Schema<TOutput | undefined> {
+  readonly is_optional: true;
+}
+
+/**
+ * Shape of an object schema: property names mapped to schemas.
+ */
+export type ObjectShape = Record<string, Schema<any>>;
+
+/**
+ * Infer the output type of an object shape, marking optional schemas as optional keys.
+ */
+export type InferShape<TShape extends ObjectShape> = {
+  [K in keyof TShape as TShape[K] extends OptionalSchema<any>
+    ? never
+    : K]: InferSchemaOutput<TShape[K]>;
+} & {
+  [K in keyof TShape as TShape[K] extends OptionalSchema<any>
+    ? K
+    : never]?: InferSchemaOutput<TShape[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+/**
+ * String schema options.
+ */
+export interface StringSchemaOptions {
+  /** Minimum length */
+  min_length?: number;
+  /** Maximum length */
+  max_length?: number;
+  /** Regular expression the value must match */
+  pattern?: RegExp;
+  /** Well-known string format */
+  format?: 'email' | 'uuid' | 'url' | 'date-time';
+}
+
+/**
+ * Number schema options.
+ */
+export interface NumberSchemaOptions {
+  /** Minimum value (inclusive) */
+  min?: number;
+  /** Maximum value (inclusive) */
+  max?: number;
+  /** Require an integer value */
+  integer?: boolean;
+}
+
+/**
+ * Array schema options.
+ */
+export interface ArraySchemaOptions {
+  /** Minimum number of items */
+  min_items?: number;
+  /** Maximum number of items */
+  max_items?: number;
+}
+
+/**
+ * Regular expressions for string formats.
+ */
+const FORMATS: Record<NonNullable<StringSchemaOptions['format']>, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  url: /^[a-z][a-z\d+\-.]*:\/\/[^\s]+$/i,
+  'date-time':
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+};
+
+/**
+ * Describe a value's type for error messages.
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+/**
+ * Create a built-in schema from a check function.
+ * @param kind - Schema kind
+ * @param check - Check function implementing the validation
+ * @param json_schema - JSON Schema describing the same constraints
+ * @param is_optional - Whether the schema may be omitted from its parent
+ * @returns Schema instance that also implements Standard Schema
+ */
+function create_schema<TOutput>(
+  kind: SchemaKind,
+  check: SchemaCheck,
+  json_schema: JsonSchema,
+  is_optional = false
+): Schema<TOutput> {
+  const schema: Schema<TOutput> = {
+    kind,
+    is_optional,
+    json_schema,
+    check,
+    parse(value: unknown, options: ParseOptions = {}) {
+      const issues: StandardSchemaIssue[] = [];
+      const output = check(value, [], issues, options);
+      if (issues.length > 0) {
+        return { issues };
+      }
+      return { value: output as TOutput };
+    },
+    '~standard': {
+      version: 1,
+      vendor: 'bunserve',
+      validate: (value: unknown) => schema.parse(value)
+    }
+  };
+  return schema;
+}
+
+/**
+ * Create a string schema.
+ */
+function string_schema(options: StringSchemaOptions = {}): Schema<string> {
+  return create_schema(
+    'string',
+    (value, path, issues, parse_options) => {
+      if (parse_options.coerce && Array.isArray(value)) {
+        value = value[value.length - 1];
+      }
+      if (typeof value !== 'string') {
+        issues.push({
+          message: `Expected string, received ${describe(value)}`,
+          path
+        });
+        return value;
+      }
+      if (
+        options.min_length !== undefined &&
+        value.length < options.min_length
+      ) {
+        issues.push({
+          message: `Expected at least ${options.min_length} characters`,
+          path
+        });
+      }
+      if (
+        options.max_length !== undefined &&
+        value.length > options.max_length
+      ) {
+        issues.push({
+          message: `Expected at most ${options.max_length} characters`,
+          path
+        });
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ message: `Expected to match ${options.pattern}`, path });
+      }
+      if (options.format && !FORMATS[options.format].test(value)) {
+        issues.push({ message: `Expected ${options.format} format`, path });
+      }
+      return value;
+    },
+    {
+      type: 'string',
+      ...(options.min_length !== undefined && {
+        minLength: options.min_length
+      }),
+      ...(options.max_length !== undefined && {
+        maxLength: options.max_length
+      }),
+      ...(options.pattern && { pattern: options.pattern.source }),
+      ...(options.format && { format: options.format })
+    }
+  );
+}
+
+/**
+ * Create a number schema.
+ */
+function number_schema(options: NumberSchemaOptions = {}): Schema<number> {
+  return create_schema(
+    'number',
+    (value, path, issues, parse_options) => {
+      if (parse_options.coerce && Array.isArray(value)) {
+        value = value[value.length - 1];
+      }
+      // Describe the input, not the NaN a failed coercion produces
+      const input = value;
+      if (
+        parse_options.coerce &&
+        typeof value === 'string' &&
+        value.trim() !== ''
+      ) {
+        value = Number(value);
+      }
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({
+          message: `Expected number, received ${describe(input)}`,
+          path
+        });
+        return input;
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push({ message: 'Expected integer', path });
+      }
+      if (options.min !== undefined && value < options.min) {
+        issues.push({ message: `Expected number >= ${options.min}`, path });
+      }
+      if (options.max !== undefined && value > options.max) {
+        issues.push({ message: `Expected number <= ${options.max}`, path });
+      }
+      return value;
+    },
+    {
+      type: options.integer ? 'integer' : 'number',
+      ...(options.min !== undefined && { minimum: options.min }),
+      ...(options.max !== undefined && { maximum: options.max })
+    }
+  );
+}
+
+/**
+ * Create a boolean schema.
+ */
+function boolean_schema(): Schema<boolean> {
+  return create_schema(
+    'boolean',
+    (value, path, issues, parse_options) => {
+      if (parse_options.coerce && Array.isArray(value)) {
+        value = value[value.length - 1];
+      }
+      if (parse_options.coerce && (value === 'true' || value === 'false')) {
+        value = value === 'true';
+      }
+      if (typeof value !== 'boolean') {
+        issues.push({
+          message: `Expected boolean, received ${describe(value)}`,
+          path
+        });
+      }
+      return value;
+    },
+    { type: 'boolean' }
+  );
+}
+
+/**
+ * Create a literal schema matching exactly one value.
+ */
+function literal_schema<const TValue extends string | number | boolean>(
+  expected: TValue
+): Schema<TValue> {
+  return create_schema(
+    'literal',
+    (value, path, issues, parse_options) => {
+      if (parse_options.coerce && Array.isArray(value)) {
+        value = value[value.length - 1];
+      }
+      if (parse_options.coerce && typeof value === 'string') {
+        if (typeof expected === 'number' && value.trim() !== '') {
+          value = Number(value);
+        }
+        // Only 'true' and 'false' coerce, so `?flag=banana` stays invalid
+        if (typeof expected === 'boolean' && value === String(expected)) {
+          value = expected;
+        }
+      }
+      if (value !== expected) {
+        issues.push({ message: `Expected ${JSON.stringify(expected)}`, path });
+      }
+      return value;
+    },
+    { const: expected }
+  );
+}
+
+/**
+ * Create an enum schema matching one of the given string values.
+ */
+function enum_schema<const TValues extends readonly string[]>(
+  values: TValues
+): Schema<TValues[number]> {
+  return create_schema(
+    'enum',
+    (value, path, issues, parse_options) => {
+      if (parse_options.coerce && Array.isArray(value)) {
+        value = value[value.length - 1];
+      }
+      if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push({
+          message: `Expected one of ${values.map((v) => JSON.stringify(v)).join(', ')}`,
+          path
+        });
+      }
+      return value;
+    },
+    { type: 'string', enum: [...values] }
+  );
+}
+
+/**
+ * Create an array schema.
+ */
+function array_schema<TItem extends Schema<any>>(
+  item: TItem,
+  options: ArraySchemaOptions = {}
+): Schema<InferSchemaOutput<TItem>[]> {
+  return create_schema(
+    'array',
+    (value, path, issues, parse_options) => {
+      // Single query values arrive as plain strings
+      if (
+        parse_options.coerce &&
+        !Array.isArray(value) &&
+        value !== undefined
+      ) {
+        value = [value];
+      }
+      if (!Array.isArray(value)) {
+        issues.push({
+          message: `Expected array, received ${describe(value)}`,
+          path
+        });
+        return value;
+      }
+      if (options.min_items !== undefined && value.length < options.min_items) {
+        issues.push({
+          message: `Expected at least ${options.min_items} items`,
+          path
+        });
+      }
+      if (options.max_items !== undefined && value.length > options.max_items) {
+        issues.push({
+          message: `Expected at most ${options.max_items} items`,
+          path
+        });
+      }
+      return value.map((entry, index) =>
+        item.check(entry, [...path, index], issues, parse_options)
+      );
+    },
+    {
+      type: 'array',
+      items: item.json_schema,
+      ...(options.min_items !== undefined && { minItems: options.min_items }),
+      ...(options.max_items !== undefined && { maxItems: options.max_items })
+    }
+  );
+}
+
+/**
+ * Build the JSON Schema for an object shape.
+ * Optional properties are left out of `required`.
+ */
+function object_json_schema(shape: ObjectShape): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, property] of Object.entries(shape)) {
+    properties[key] = property.json_schema;
+    if (!property.is_optional) required.push(key);
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required })
+  };
+}
+
+/**
+ * Create an object schema. Unknown keys are stripped from the output.
+ */
+function object_schema<TShape extends ObjectShape>(
+  shape: TShape
+): Schema<InferShape<TShape>> {
+  return create_schema(
+    'object',
+    (value, path, issues, parse_options) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          message: `Expected object, received ${describe(value)}`,
+          path
+        });
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(shape)) {
+        const property_value = input[key];
+        if (property_value === undefined) {
+          if (!property.is_optional) {
+            issues.push({ message: 'Required', path: [...path, key] });
+          }
+          continue;
+        }
+        output[key] = property.check(
+          property_value,
+          [...path, key],
+          issues,
+          parse_options
+        );
+      }
+      return output;
+    },
+    object_json_schema(shape)
+  );
+}
+
+/**
+ * Create a union schema that accepts the first matching option.
+ */
+function union_schema<TOptions extends Schema<any>[]>(
+  ...options: TOptions
+): Schema<InferSchemaOutput<TOptions[number]>> {
+  return create_schema(
+    'union',
+    (value, path, issues, parse_options) => {
+      for (const option of options) {
+        const option_issues: StandardSchemaIssue[] = [];
+        const output = option.check(value, path, option_issues, parse_options);
+        if (option_issues.length === 0) {
+          return output;
+        }
+      }
+      issues.push({ message: 'Value does not match any union member', path });
+      return value;
+    },
+    { anyOf: options.map((option) => option.json_schema) }
+  );
+}
+
+/**
+ * Mark a schema as optional (may be omitted or undefined).
+ */
+function optional_schema<TOutput>(
+  schema: Schema<TOutput>
+): OptionalSchema<TOutput> {
+  return create_schema<TOutput | undefined>(
+    'optional',
+    (value, path, issues, parse_options) =>
+      value === undefined
+        ? undefined
+        : schema.check(value, path, issues, parse_options),
+    schema.json_schema,
+    true
+  ) as OptionalSchema<TOutput>;
+}
+
+/**
+ * Allow null in addition to the wrapped schema.
+ */
+function nullable_schema<TOutput>(
+  schema: Schema<TOutput>
+): Schema<TOutput | null> {
+  return create_schema(
+    'nullable',
+    (value, path, issues, parse_options) =>
+      value === null ? null : schema.check(value, path, issues, parse_options),
+    { anyOf: [schema.json_schema, { type: 'null' }] }
+  );
+}
+
+/**
+ * Create a schema that accepts any value.
+ */
+function any_schema(): Schema<any> {
+  return create_schema('any', (value) => value, {});
+}
+
+/**
+ * Built-in lightweight schema DSL.
+ *
+ * @example
+ * ```typescript
+ * import { bunserve, t } from 'bunserve';
+ *
+ * const app = bunserve();
+ *
+ * app.post(
+ *   '/users',
+ *   ({ body }) => ({ created: body.email }),
+ *   {
+ *     body: t.object({
+ *       email: t.string({ format: 'email' }),
+ *       age: t.optional(t.number({ min: 0, integer: true }))
+ *     })
+ *   }
+ * );
+ * ```
+ */
+export const t = {
+  string: string_schema,
+  number: number_schema,
+  integer: (options: Omit<NumberSchemaOptions, 'integer'> = {}) =>
+    number_schema({ ...options, integer: true }),
+  boolean: boolean_schema,
+  literal: literal_schema,
+  enum: enum_schema,
+  array: array_schema,
+  object: object_schema,
+  union: union_schema,
+  optional: optional_schema,
+  nullable: nullable_schema,
+  any: any_schema
+};
+
+/**
+ * Check whether a value is a built-in bunserve schema.
+ * @param value - Value to check
+ * @returns True if the value was created by the `t` DSL
+ */
+export function is_schema(value: unknown): value is Schema<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '~standard' in value &&
+    (value as StandardSchemaV1)['~standard'].vendor === 'bunserve'
+  );
+}
+
+/**
+ * Validate a value against a built-in schema or any Standard Schema.
+ * @param schema - Schema to validate against
+ * @param value - Value to validate
+ * @param options - Parse options (only applied to built-in schemas)
+ * @returns Promise resolving to the Standard Schema result
+ */
+export async function validate_schema<TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+  value: unknown,
+  options: ParseOptions = {}
+): Promise<StandardSchemaResult<InferSchemaOutput<TSchema>>> {
+  if (is_schema(schema)) {
+    return schema.parse(value, options) as StandardSchemaResult<
+      InferSchemaOutput<TSchema>
+    >;
+  }
+  return (await schema['~standard'].validate(value)) as StandardSchemaResult<
+    InferSchemaOutput<TSchema>
+  >;
+}
+
+/**
+ * Location of a request input that failed validation.
+ */
+export type ValidationLocation = 'body' | 'query' | 'params' | 'headers';
+
+/**
+ * Location of a validation issue, including handler output.
+ */
+export type IssueLocation = ValidationLocation | 'response' | 'message';
+
+/**
+ * A single request validation issue.
+ */
+export interface ValidationIssue {
+  /** Which part of the request (or the response) failed validation */
+  location: IssueLocation;
+  /** Path to the offending value within that part */
+  path: (string | number)[];
+  /** Human readable error message */
+  message: string;
+}
+
+/**
+ * Convert Standard Schema issues into request validation issues.
+ * @param location - Request part the issues belong to
+ * @param issues - Standard Schema issues
+ * @returns Normalized validation issues
+ */
+export function to_validation_issues(
+  location: IssueLocation,
+  issues: ReadonlyArray<StandardSchemaIssue>
+): ValidationIssue[] {
+  return issues.map((issue) => ({
+    location,
+    path: (issue.path ?? []).map((segment) => {
+      const key =
+        typeof segment === 'object' && segment !== null ? segment.key : segment;
+      return typeof key === 'number' ? key : String(key);
+    }),
+    message: issue.message
+  }));
+}
+
+/**
+ * Error thrown when request inputs or handler output fail schema validation.
+ * Body failures use 422 Unprocessable Content, other inputs use 400 Bad Request
+ * and response mismatches use 500 Internal Server Error.
+ */
+export class ValidationError extends HttpError {
+  /** Validation issues */
+  issues: ValidationIssue[];
+
+  constructor(
+    issues: ValidationIssue[],
+    status = 400,
+    message = 'Validation failed'
+  ) {
+    super(status, message, {
+      code: 'VALIDATION_FAILED',
+      details: issues,
+      expose: true
+    });
+    this.issues = issues;
+  }
+}
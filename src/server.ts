@@ -1,5 +1,32 @@
-import { RouterImpl, router } from './router';
-import type { Middleware, Router } from './types';
+import type { Server as BunServer } from 'bun';
+import { create_dispatcher } from './dispatcher';
+import type { LoggingOptions } from './log';
+import type { OpenAPIDocument, OpenAPIOptions } from './openapi';
+import type { Plugin } from './plugin';
+import { RouterImpl } from './router';
+import type {
+  AfterHandleHook,
+  BeforeHandleHook,
+  BunRouteHandler,
+  BunRoutes,
+  Middleware,
+  NoRoutes,
+  OnErrorHook,
+  OnRequestHook,
+  OnResponseHook,
+  ResponseValidationMode,
+  RouteChain,
+  RouteConflictMode,
+  RouteHandler,
+  RouteInfo,
+  RouteMap,
+  Router,
+  RouterKind,
+  RouteSchema,
+  ShutdownHook,
+  UrlForOptions
+} from './types';
+import { create_websocket_handler } from './websocket';
 
 /**
  * Configuration options for BunServe server.
@@ -9,25 +36,152 @@ export interface ServerOptions {
   port?: number;
   /** Default host to bind to (default: 'localhost') */
   host?: string;
-  /** Optional hook that runs before each request */
-  before_each?: (request: Request) => void;
+  /** Optional hook that runs before each request (added as an `on_request` hook) */
+  before_each?: (request: Request) => Promise<void> | void;
   /** Maximum request body size in bytes (default: 1048576 = 1MB) */
   max_body_size?: number;
+  /**
+   * How response schemas are enforced
+   * (default: 'strict' in development, 'strip' in production)
+   */
+  response_validation?: ResponseValidationMode;
+  /** How duplicate method/path registrations are reported (default: 'error') */
+  route_conflicts?: RouteConflictMode;
+  /**
+   * Print a table of registered routes when the server starts
+   * (default: true outside production)
+   */
+  print_routes?: boolean;
+  /**
+   * Close the server gracefully and exit when the process receives these
+   * signals (`true` for SIGINT and SIGTERM, default: false)
+   */
+  shutdown_signals?: boolean | NodeJS.Signals[];
+  /**
+   * Structured logger configuration for `context.log`: level, redacted
+   * fields, base fields and output
+   */
+  logging?: LoggingOptions;
+}
+
+/**
+ * Options for `close()`.
+ */
+export interface CloseOptions {
+  /**
+   * Milliseconds to wait for in-flight requests before closing their
+   * connections (default: 10000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Router kind for servers, so registration methods keep returning a `Server`.
+ */
+export interface ServerKind extends RouterKind {
+  readonly self: Server<this['routes'], this['context']>;
 }
 
 /**
  * Server interface extending Router with server lifecycle management.
  * The app IS a router, but also has server capabilities.
+ * @template TRoutes - Type-level map of registered routes (used by `client()`)
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
  */
-export interface Server extends Router {
-  /** Start the server listening on the specified port */
-  listen(port?: number, host?: string): void;
+export interface Server<
+  TRoutes extends RouteMap = NoRoutes,
+  TContext extends object = object
+> extends Router<TRoutes, ServerKind, TContext> {
+  /**
+   * Start the server listening on the specified port. Starts right away
+   * unless plugins are still installing; resolves once listening.
+   */
+  listen(port?: number, host?: string): Promise<void>;
   /** Get the underlying Bun server instance */
   get_bun_server(): any;
   /** Handle a single HTTP request (useful for testing) */
   fetch(request: Request): Promise<Response>;
-  /** Stop the server and release resources */
-  close(): Promise<void>;
+  /**
+   * Stop accepting connections, wait for in-flight requests, run shutdown
+   * hooks and release resources. Requests arriving meanwhile get a 503.
+   */
+  close(options?: CloseOptions): Promise<void>;
+  /**
+   * Publish a message to every WebSocket subscribed to a topic.
+   * @returns Bytes sent (0 when the server is not listening or nobody is subscribed)
+   */
+  publish(
+    topic: string,
+    data: string | ArrayBuffer | Uint8Array,
+    compress?: boolean
+  ): number;
+}
+
+/**
+ * Format routes as an aligned text table for the startup log.
+ * @param routes - Registered routes
+ * @returns Table with method, path and middleware columns
+ */
+function format_route_table(routes: RouteInfo[]): string {
+  const rows = [
+    ['METHOD', 'PATH', 'MIDDLEWARE'],
+    ...routes.map((route) => [
+      route.method,
+      route.path,
+      route.middlewares.join(', ')
+    ])
+  ];
+  const widths = [0, 1].map((column) =>
+    Math.max(...rows.map((row) => (row[column] as string).length))
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Wrap every handler of the built routes. Static responses are kept as-is.
+ * @param routes - Bun routes built by the router
+ * @param wrap - Wraps a single handler
+ * @returns Routes with wrapped handlers
+ */
+function wrap_route_handlers(
+  routes: BunRoutes,
+  wrap: (handler: Exclude<BunRouteHandler, Response>) => BunRouteHandler
+): BunRoutes {
+  const wrap_handler = (handler: BunRouteHandler) =>
+    handler instanceof Response ? handler : wrap(handler);
+
+  return Object.fromEntries(
+    Object.entries(routes).map(([path, handler]) => [
+      path,
+      typeof handler === 'function' || handler instanceof Response
+        ? wrap_handler(handler)
+        : Object.fromEntries(
+            Object.entries(handler).map(([method, method_handler]) => [
+              method,
+              method_handler && wrap_handler(method_handler)
+            ])
+          )
+    ])
+  ) as BunRoutes;
+}
+
+/**
+ * Response for requests arriving while the server drains.
+ * @returns 503 response asking the client to close the connection
+ */
+function service_unavailable(): Response {
+  return new Response('Service Unavailable', {
+    status: 503,
+    headers: { Connection: 'close' }
+  });
 }
 
 /**
@@ -43,74 +197,189 @@ class ServerImpl implements Server {
   private default_port: number;
   /** Default host */
   private default_host: string;
-  /** Optional before_each hook */
-  private before_each_hook?: (request: Request) => void;
   /** Maximum request body size */
   private max_body_size: number;
+  /** Print the route table on `listen()` */
+  private print_routes: boolean;
+  /** In-process dispatcher used by `fetch()` */
+  private dispatcher?: (request: Request) => Promise<Response>;
+  /** Routes the dispatcher was built from */
+  private dispatcher_routes?: BunRoutes;
+  /** Signals that close the server */
+  private shutdown_signals: NodeJS.Signals[];
+  /** Signal listeners installed by `listen()` */
+  private signal_listeners: [NodeJS.Signals, () => void][] = [];
+  /** Number of requests being handled */
+  private in_flight = 0;
+  /** Callbacks waiting for in-flight requests to finish */
+  private drain_waiters: (() => void)[] = [];
+  /** Set while `close()` runs; new requests get a 503 */
+  private closing?: Promise<void>;
 
   /**
    * Create a new server instance.
    */
   constructor(options: ServerOptions = {}) {
-    this.router = router() as RouterImpl;
+    this.router = new RouterImpl({
+      response_validation: options.response_validation,
+      route_conflicts: options.route_conflicts,
+      logging: options.logging
+    });
+    this.print_routes =
+      options.print_routes ?? process.env.NODE_ENV !== 'production';
     this.default_port = options.port || 3000;
     this.default_host = options.host || 'localhost';
-    this.before_each_hook = options.before_each;
+    if (options.before_each) {
+      this.router.on_request(options.before_each);
+    }
     this.max_body_size = options.max_body_size || 1048576; // Default: 1MB
+    this.shutdown_signals =
+      options.shutdown_signals === true
+        ? ['SIGINT', 'SIGTERM']
+        : options.shutdown_signals || [];
   }
 
   // ==========================================
   // Router methods - delegate to internal router
   // ==========================================
 
-  get<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  get(path: string, ...args: any[]): this {
     this.router.get(path, ...args);
+    return this;
   }
 
-  post<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  post(path: string, ...args: any[]): this {
     this.router.post(path, ...args);
+    return this;
   }
 
-  put<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  put(path: string, ...args: any[]): this {
     this.router.put(path, ...args);
+    return this;
   }
 
-  patch<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  patch(path: string, ...args: any[]): this {
     this.router.patch(path, ...args);
+    return this;
   }
 
-  delete<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  delete(path: string, ...args: any[]): this {
     this.router.delete(path, ...args);
+    return this;
   }
 
-  options<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  options(path: string, ...args: any[]): this {
     this.router.options(path, ...args);
+    return this;
   }
 
-  head<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  head(path: string, ...args: any[]): this {
     this.router.head(path, ...args);
+    return this;
   }
 
-  all<Path extends string>(path: Path, ...args: any[]): void {
-    // @ts-expect-error - args spread
+  all(path: string, ...args: any[]): this {
     this.router.all(path, ...args);
+    return this;
+  }
+
+  ws(path: string, ...args: any[]): this {
+    this.router.ws(path, ...args);
+    return this;
   }
 
-  use(middleware_or_path: Middleware | string, router?: Router): void {
-    if (typeof middleware_or_path === 'string' && router) {
+  not_found(handler: RouteHandler<string, RouteSchema, any, any>): this {
+    this.router.not_found(handler);
+    return this;
+  }
+
+  use(
+    middleware_or_path: Middleware<any> | string,
+    middlewares_or_router?: Middleware<any>[] | Router<any, any, any>,
+    router?: Router<any, any, any>
+  ): this {
+    if (typeof middleware_or_path === 'string' && middlewares_or_router) {
       // Mount sub-router at path
-      this.router.use(middleware_or_path, router);
+      this.router.use(middleware_or_path, middlewares_or_router, router);
     } else {
       // Add global middleware
       this.router.use(middleware_or_path as Middleware);
     }
+    return this;
+  }
+
+  group(prefix: string, ...args: any[]): this {
+    this.router.group(prefix, ...args);
+    return this;
+  }
+
+  route(path: string): RouteChain<string, any> {
+    return this.router.route(path);
+  }
+
+  on_request(hook: OnRequestHook): this {
+    this.router.on_request(hook);
+    return this;
+  }
+
+  before_handle(hook: BeforeHandleHook<any>): this {
+    this.router.before_handle(hook);
+    return this;
+  }
+
+  after_handle(hook: AfterHandleHook<any>): this {
+    this.router.after_handle(hook);
+    return this;
+  }
+
+  on_response(hook: OnResponseHook): this {
+    this.router.on_response(hook);
+    return this;
+  }
+
+  on_error(hook: OnErrorHook): this {
+    this.router.on_error(hook);
+    return this;
+  }
+
+  register(plugin: Plugin<any, any, boolean>, options?: any): this {
+    this.router.register(plugin, options);
+    return this;
+  }
+
+  ready(): Promise<void> {
+    return this.router.ready();
+  }
+
+  on_shutdown(hook: ShutdownHook): this {
+    this.router.on_shutdown(hook);
+    return this;
+  }
+
+  decorate(name_or_values: string | object, value?: unknown): this {
+    this.router.decorate(name_or_values, value);
+    return this;
+  }
+
+  derive(derive: (context: any) => object | Promise<object>): this {
+    this.router.derive(derive);
+    return this;
+  }
+
+  openapi(options: OpenAPIOptions): OpenAPIDocument {
+    return this.router.openapi(options);
+  }
+
+  url_for(
+    name: string,
+    params?: Record<string, unknown>,
+    options?: UrlForOptions
+  ): string {
+    return this.router.url_for(name, params, options);
+  }
+
+  routes(): RouteInfo[] {
+    return this.router.routes();
   }
 
   build_routes() {
@@ -123,15 +392,35 @@ class ServerImpl implements Server {
 
   /**
    * Start the server listening on the specified port.
+   * When plugins are still installing, the server starts once they finish.
    * @param port - Port number to listen on (default: 3000)
    * @param host - Host to bind to (default: 'localhost')
+   * @returns Promise resolving once the server is listening
+   * @throws Error thrown by a plugin setup (as a rejection)
    */
-  listen(port?: number, host?: string): void {
+  listen(port?: number, host?: string): Promise<void> {
+    if (this.router.installing) {
+      return this.router.ready().then(() => this.start(port, host));
+    }
+    this.start(port, host);
+    return Promise.resolve();
+  }
+
+  /**
+   * Start Bun.serve with the built routes.
+   * @param port - Port number to listen on (default: 3000)
+   * @param host - Host to bind to (default: 'localhost')
+   */
+  private start(port?: number, host?: string): void {
     const listen_port = port || this.default_port;
     const listen_host = host || this.default_host;
 
-    // Build Bun-native routes from internal router
-    const routes = this.router.build_routes();
+    // Build Bun-native routes from internal router, counting in-flight
+    // requests so close() can wait for them
+    const routes = wrap_route_handlers(
+      this.router.build_routes(),
+      (handler) => (req, server) => this.track(() => handler(req, server))
+    );
 
     // Create Bun server with native routes
     this.bun_server = Bun.serve({
@@ -139,15 +428,35 @@ class ServerImpl implements Server {
       hostname: listen_host,
       routes: routes as any, // Type cast needed due to Bun's internal types
       maxRequestBodySize: this.max_body_size,
+      // Dispatches WebSocket events to the route each socket was upgraded on
+      websocket: create_websocket_handler(),
       // Fallback fetch for unmatched routes
-      fetch: (_req: Request) => {
-        return new Response('Not Found', { status: 404 });
-      }
+      fetch: (req: Request, server) =>
+        this.track(() => this.fallback(req, server))
     });
+    this.listen_for_signals();
 
     console.log(
       `🚀 BunServe server running at http://${listen_host}:${listen_port}`
     );
+    if (this.print_routes) {
+      console.log(format_route_table(this.router.routes()));
+    }
+  }
+
+  /**
+   * Publish a message to every WebSocket subscribed to a topic.
+   * @param topic - Topic name
+   * @param data - Message to send
+   * @param compress - Compress the message
+   * @returns Bytes sent (0 when the server is not listening or nobody is subscribed)
+   */
+  publish(
+    topic: string,
+    data: string | ArrayBuffer | Uint8Array,
+    compress?: boolean
+  ): number {
+    return this.bun_server?.publish(topic, data, compress) ?? 0;
   }
 
   /**
@@ -159,120 +468,134 @@ class ServerImpl implements Server {
   }
 
   /**
-   * Convert a route path pattern to a regex for matching.
-   * @param pattern - Route path pattern (e.g., '/users/:id' or '/api/*')
-   * @returns Object with regex, parameter names, and wildcard flag
+   * Close the server when one of the configured signals arrives, then exit.
    */
-  private pattern_to_regex(pattern: string): {
-    regex: RegExp;
-    params: string[];
-    has_wildcard: boolean;
-  } {
-    const params: string[] = [];
-    let regex_str = pattern;
-    let has_wildcard = false;
-
-    // Handle wildcard routes - store wildcard position
-    if (regex_str.includes('*')) {
-      has_wildcard = true;
-      params.push('*');
-      regex_str = regex_str.replace(/\*/g, '(.*)');
+  private listen_for_signals(): void {
+    for (const signal of this.shutdown_signals) {
+      const listener = () => {
+        console.log(`Received ${signal}, shutting down`);
+        this.close().then(
+          () => process.exit(0),
+          (error) => {
+            console.error('Shutdown error:', error);
+            process.exit(1);
+          }
+        );
+      };
+      process.once(signal, listener);
+      this.signal_listeners.push([signal, listener]);
     }
-
-    // Convert :param to capture groups
-    regex_str = regex_str.replace(/:(\w+)/g, (_, param_name) => {
-      params.push(param_name);
-      return '([^/]+)';
-    });
-
-    return {
-      regex: new RegExp(`^${regex_str}$`),
-      params,
-      has_wildcard
-    };
   }
 
   /**
-   * Extract parameters from a matched route.
-   * @param param_names - Array of parameter names
-   * @param match - Regex match result
-   * @returns Object mapping parameter names to values
+   * Handle a request while counting it as in flight.
+   * Requests arriving while the server closes get a 503 instead.
+   * @param handle - Handles the request
+   * @returns Promise resolving to the handler's response
    */
-  private extract_params(
-    param_names: string[],
-    match: RegExpMatchArray
-  ): Record<string, string> {
-    const params: Record<string, string> = {};
-    for (let i = 0; i < param_names.length; i++) {
-      const param_name = param_names[i];
-      if (param_name) {
-        params[param_name] = match[i + 1] || '';
+  private async track<T>(handle: () => T | Promise<T>): Promise<T | Response> {
+    if (this.closing) return service_unavailable();
+
+    this.in_flight++;
+    try {
+      return await handle();
+    } finally {
+      this.in_flight--;
+      if (this.in_flight === 0) {
+        for (const resolve of this.drain_waiters.splice(0)) resolve();
       }
     }
-    return params;
+  }
+
+  /**
+   * Wait for in-flight requests to finish.
+   * @param timeout - Milliseconds to wait at most
+   * @returns Promise resolving to false when the timeout passed first
+   */
+  private drain(timeout: number): Promise<boolean> {
+    if (this.in_flight === 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeout);
+      this.drain_waiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Respond to requests no route answered through the router's fallback.
+   * @param request - Unmatched request
+   * @param server - Bun server that received the request
+   * @returns Promise resolving to the fallback response
+   */
+  private fallback(
+    request: Request,
+    server?: BunServer<unknown>
+  ): Promise<Response> {
+    return this.router.fallback(request, server);
   }
 
   /**
    * Handle an incoming HTTP request.
    * This method is useful for testing routes without starting a server.
+   * Routes are matched like Bun.serve (exact > param > wildcard) by a
+   * dispatcher that is rebuilt only when routes change.
    * @param request - HTTP request object
    * @returns Promise resolving to HTTP response
    */
   async fetch(request: Request): Promise<Response> {
-    // Build routes and manually dispatch to the matching route
+    if (this.router.installing) {
+      await this.router.ready();
+    }
+
     const routes = this.router.build_routes();
-    const url = new URL(request.url);
-    const pathname = url.pathname;
-
-    // Find matching route
-    for (const [route_path, handler] of Object.entries(routes)) {
-      // Convert route pattern to regex for matching
-      const {
-        regex,
-        params: param_names,
-        has_wildcard
-      } = this.pattern_to_regex(route_path);
-      const match = pathname.match(regex);
-
-      if (match) {
-        // Extract parameters
-        const params = this.extract_params(param_names, match);
-
-        if (typeof handler === 'function') {
-          // Cast request to BunRequest-like object
-          const bun_req = request as any;
-          bun_req.params = params;
-          bun_req.cookies = new Map();
-          return await handler(bun_req);
-        } else if (handler instanceof Response) {
-          return handler;
-        } else {
-          // Route definition with HTTP methods
-          const method = request.method as keyof typeof handler;
-          const method_handler = method ? handler[method] : undefined;
-          if (method_handler) {
-            if (typeof method_handler === 'function') {
-              const bun_req = request as any;
-              bun_req.params = params;
-              bun_req.cookies = new Map();
-              return await method_handler(bun_req);
-            } else {
-              return method_handler;
-            }
-          }
-        }
-      }
+    if (!this.dispatcher || this.dispatcher_routes !== routes) {
+      this.dispatcher = create_dispatcher(routes, (req) => this.fallback(req));
+      this.dispatcher_routes = routes;
     }
+    const dispatcher = this.dispatcher;
+    return this.track(() => dispatcher(request));
+  }
 
-    return new Response('Not Found', { status: 404 });
+  /**
+   * Shut the server down gracefully. It stops accepting connections, waits
+   * for in-flight requests (answering new ones with 503), runs the shutdown
+   * hooks and finally closes remaining connections such as WebSockets.
+   * Calling it again while closing returns the same promise.
+   * @param options - Drain timeout
+   * @returns Promise resolving once the server is closed
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    this.closing ??= this.shutdown(options.timeout ?? 10_000).finally(() => {
+      this.closing = undefined;
+    });
+    return this.closing;
   }
 
   /**
-   * Stop the server and release resources.
+   * Drain requests, run shutdown hooks and stop the Bun server.
+   * @param timeout - Milliseconds to wait for in-flight requests
    */
-  async close(): Promise<void> {
+  private async shutdown(timeout: number): Promise<void> {
+    for (const [signal, listener] of this.signal_listeners.splice(0)) {
+      process.off(signal, listener);
+    }
+
+    // Stop accepting connections; in-flight requests keep running
+    this.bun_server?.stop();
+
+    if (!(await this.drain(timeout))) {
+      console.warn(
+        `⚠️ ${this.in_flight} request(s) still running after ${timeout}ms, closing connections`
+      );
+    }
+
+    await this.router.run_shutdown_hooks();
+
     if (this.bun_server) {
-      await this.bun_server.stop();
+      await this.bun_server.stop(true);
       console.log('🛑 Server stopped');
     }
   }
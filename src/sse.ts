@@ -0,0 +1,264 @@
+/**
+ * A single Server-Sent Events message.
+ * Strings are sent as-is (multi-line strings become several `data:` lines);
+ * any other `data` value is JSON-encoded.
+ */
+export interface SSEEvent {
+  /** Message payload */
+  data?: unknown;
+  /** Event name (`event:` field); clients listen with `addEventListener(name)` */
+  event?: string;
+  /** Event ID (`id:` field); sent back by the browser as `Last-Event-ID` on reconnect */
+  id?: string | number;
+  /** Reconnection delay in milliseconds (`retry:` field) */
+  retry?: number;
+}
+
+/**
+ * Writable side of an SSE response, passed to emitter-style sources.
+ */
+export interface SSEStream {
+  /** `Last-Event-ID` sent by the client when reconnecting (null on first connect) */
+  readonly last_event_id: string | null;
+  /** Aborted when the client disconnects or the stream is closed */
+  readonly signal: AbortSignal;
+  /** Whether the stream has been closed */
+  readonly closed: boolean;
+  /** Send an event; ignored after the stream is closed */
+  send(event: SSEEvent): void;
+  /** Send a comment line (ignored by clients, keeps connections alive) */
+  comment(text: string): void;
+  /** Close the stream and run cleanup */
+  close(): void;
+}
+
+/**
+ * Source of events for an SSE response:
+ * - an async iterable of events (the stream closes when iteration ends)
+ * - a callback receiving the stream; it may return a cleanup function, an
+ *   async iterable, or nothing (the stream stays open until `close()` or disconnect)
+ */
+export type SSESource =
+  | AsyncIterable<SSEEvent>
+  | ((
+      stream: SSEStream
+    ) =>
+      | void
+      | (() => void)
+      | AsyncIterable<SSEEvent>
+      | Promise<void>
+      | Promise<() => void>);
+
+/**
+ * Options for SSE responses.
+ */
+export interface SSEOptions {
+  /**
+   * Interval in milliseconds between heartbeat comments (default: 5000).
+   * Keep it below Bun.serve's `idleTimeout` (10 seconds by default). `0` disables heartbeats.
+   */
+  heartbeat?: number;
+  /** Reconnection delay sent to the client before the first event */
+  retry?: number;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Remove line breaks from single-line fields so they cannot inject frames.
+ * @param value - Field value
+ * @returns Value without CR/LF characters
+ */
+function single_line(value: string | number): string {
+  return String(value).replace(/[\r\n]/g, '');
+}
+
+/**
+ * Format an event as an SSE frame.
+ * @param event - Event to format
+ * @returns Frame text terminated by a blank line
+ * @example
+ * format_sse_event({ event: 'tick', id: 1, data: { n: 1 } });
+ * // 'event: tick\nid: 1\ndata: {"n":1}\n\n'
+ */
+export function format_sse_event(event: SSEEvent): string {
+  let frame = '';
+
+  if (event.event !== undefined) {
+    frame += `event: ${single_line(event.event)}\n`;
+  }
+  if (event.id !== undefined) {
+    frame += `id: ${single_line(event.id)}\n`;
+  }
+  if (event.retry !== undefined) {
+    frame += `retry: ${Math.max(0, Math.floor(event.retry))}\n`;
+  }
+  if (event.data !== undefined) {
+    const data =
+      typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+    for (const line of data.split(/\r\n|\r|\n/)) {
+      frame += `data: ${line}\n`;
+    }
+  }
+
+  return `${frame}\n`;
+}
+
+/**
+ * Create a Server-Sent Events response.
+ * Sends periodic heartbeat comments, exposes the client's `Last-Event-ID`,
+ * and cleans up when the client disconnects.
+ * @param request - Incoming request (used for `Last-Event-ID` and its abort signal)
+ * @param source - Async iterable of events or emitter-style callback
+ * @param options - Heartbeat, retry and header options
+ * @returns Streaming `text/event-stream` response
+ * @example
+ * ```typescript
+ * // Async iterator
+ * app.get('/ticks', ({ request }) =>
+ *   sse(request, (async function* () {
+ *     for (let n = 1; n <= 3; n++) yield { event: 'tick', id: n, data: { n } };
+ *   })())
+ * );
+ *
+ * // Emitter-style callback
+ * app.get('/feed', ({ sse }) =>
+ *   sse((stream) => {
+ *     const unsubscribe = feed.subscribe((item) =>
+ *       stream.send({ id: item.id, data: item })
+ *     );
+ *     return unsubscribe; // called on disconnect
+ *   })
+ * );
+ * ```
+ */
+export function sse(
+  request: Request,
+  source: SSESource,
+  options: SSEOptions = {}
+): Response {
+  const encoder = new TextEncoder();
+  const abort_controller = new AbortController();
+  const heartbeat = options.heartbeat ?? 5000;
+
+  let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let heartbeat_timer: ReturnType<typeof setInterval> | undefined;
+  let iterator: AsyncIterator<SSEEvent> | undefined;
+  let cleanup: (() => void) | undefined;
+  let closed = false;
+
+  const write = (text: string) => {
+    if (closed || !controller) return;
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      close();
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+
+    if (heartbeat_timer) clearInterval(heartbeat_timer);
+    request.signal?.removeEventListener('abort', close);
+    abort_controller.abort();
+
+    try {
+      cleanup?.();
+    } catch (error) {
+      console.error('SSE cleanup error:', error);
+    }
+    iterator?.return?.().catch(() => {});
+
+    try {
+      controller?.close();
+    } catch {
+      // Already closed or cancelled by the client
+    }
+  };
+
+  const stream: SSEStream = {
+    last_event_id: request.headers.get('last-event-id'),
+    signal: abort_controller.signal,
+    get closed() {
+      return closed;
+    },
+    send: (event) => write(format_sse_event(event)),
+    comment: (text) => write(`: ${single_line(text)}\n\n`),
+    close
+  };
+
+  const consume = async (iterable: AsyncIterable<SSEEvent>) => {
+    iterator = iterable[Symbol.asyncIterator]();
+    while (!closed) {
+      const { value, done } = await iterator.next();
+      if (done || closed) break;
+      stream.send(value);
+    }
+    close();
+  };
+
+  const start = async () => {
+    if (options.retry !== undefined) {
+      write(format_sse_event({ retry: options.retry }));
+    }
+
+    if (heartbeat > 0) {
+      heartbeat_timer = setInterval(
+        () => stream.comment('heartbeat'),
+        heartbeat
+      );
+    }
+
+    if (typeof source !== 'function') {
+      return consume(source);
+    }
+
+    const result = await source(stream);
+    if (
+      result &&
+      typeof result === 'object' &&
+      Symbol.asyncIterator in result
+    ) {
+      return consume(result);
+    }
+    if (typeof result === 'function') {
+      if (closed) {
+        result();
+      } else {
+        cleanup = result;
+      }
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(stream_controller) {
+      controller = stream_controller;
+
+      if (request.signal?.aborted) {
+        close();
+        return;
+      }
+      request.signal?.addEventListener('abort', close, { once: true });
+
+      start().catch((error) => {
+        console.error('SSE source error:', error);
+        close();
+      });
+    },
+    cancel() {
+      close();
+    }
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      ...options.headers
+    }
+  });
+}
@@ -1,18 +1,74 @@
+import type { Server as BunServer } from 'bun';
+import type { Logger, LoggingOptions } from './log';
+import type { OpenAPIDocument, OpenAPIOptions } from './openapi';
+import type { ParamConstraintTypes } from './params';
+import type {
+  Plugin,
+  PluginContext,
+  PluginRoutes,
+  RegisterArgs
+} from './plugin';
+import type {
+  InferSchemaInput,
+  InferSchemaOutput,
+  StandardSchemaV1,
+  ValidationLocation
+} from './schema';
+import type { SSEOptions, SSESource } from './sse';
+import type { WebSocketRoute } from './websocket';
+
+/**
+ * Type of a single path parameter, honouring inline constraints (`id<int>`)
+ * and optional markers (`id?`).
+ * @template TParam - Parameter segment without the leading colon
+ */
+type ParamEntry<TParam extends string> = TParam extends `${infer Inner}?`
+  ? Partial<ParamEntry<Inner>>
+  : TParam extends `${infer Name}<${infer Constraint}>`
+    ? {
+        [K in Name]: Constraint extends keyof ParamConstraintTypes
+          ? ParamConstraintTypes[Constraint]
+          : string;
+      }
+    : { [K in TParam]: string };
+
+/**
+ * Param of the trailing wildcard: `*` is `'*'`, a named `*path` is `path`.
+ * @template TPath - Path (or path remainder) containing the wildcard
+ */
+type WildcardParam<TPath extends string> =
+  TPath extends `${string}*${infer Rest}`
+    ? Rest extends `${string}*${string}`
+      ? WildcardParam<Rest>
+      : Rest extends ''
+        ? { '*': string }
+        : { [K in Rest]: string }
+    : {};
+
+/**
+ * Merge the params of consecutive path segments into one object type,
+ * keeping optional keys optional.
+ */
+type MergeParams<TLeft, TRight> = {
+  [K in keyof (TLeft & TRight)]: (TLeft & TRight)[K];
+};
+
 /**
  * Extract route parameters from a path pattern using TypeScript generics.
+ * Constrained params are typed by their constraint (`:id<int>` is a number),
+ * optional params (`:id?`) are optional and a named wildcard (`*path`)
+ * is exposed under its name.
  * @template TPath - The path pattern with parameter placeholders
  * @example
- * type Params = RouteParams<'/users/:id/posts/:postId'>
- * // Result: { id: string; postId: string }
+ * type Params = RouteParams<'/users/:id<int>/posts/:postId?'>
+ * // Result: { id: number; postId?: string }
  */
 export type RouteParams<TPath extends string> =
   TPath extends `${string}:${infer Param}/${infer Rest}`
-    ? { [K in Param | keyof RouteParams<Rest>]: string }
+    ? MergeParams<ParamEntry<Param>, RouteParams<Rest>>
     : TPath extends `${string}:${infer Param}`
-      ? { [K in Param]: string }
-      : TPath extends `${string}*${infer _Rest}`
-        ? { '*': string }
-        : {};
+      ? ParamEntry<Param>
+      : WildcardParam<TPath>;
 
 /**
  * Extended Request interface that matches Bun's BunRequest.
@@ -60,44 +116,279 @@ export interface CookieOptions {
 
 /**
  * Middleware function type for request processing pipeline.
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
  * @param context - The route context containing request information
  * @param next - Function to call the next middleware in the chain
  * @returns Promise that resolves when middleware processing is complete, optionally with a result
  */
-export type Middleware = (
-  context: RouteContext<string>,
+export type Middleware<TContext extends object = object> = (
+  context: RouteContext<string> & TContext,
   next: () => Promise<void>
 ) => Promise<undefined | any> | undefined | any;
 
 /**
  * Route handler function type for processing requests.
  * @template TPath - The path pattern with parameter placeholders
+ * @template TSchema - Route schemas narrowing the context and return type
+ * @template TResult - The handler's return type
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
  * @param context - The route context containing request, params, query, body, and response setters
  * @returns The response data or Promise resolving to response data
  */
-export type RouteHandler<TPath extends string> = (
-  context: RouteContext<TPath>
-) => Promise<any> | any;
+export type RouteHandler<
+  TPath extends string,
+  TSchema extends RouteSchema = RouteSchema,
+  TResult = RouteResponse<TSchema>,
+  TContext extends object = object
+> = (
+  context: RouteContext<TPath, TSchema> & TContext
+) => Promise<TResult> | TResult;
+
+/**
+ * Request input schemas attached to a route at registration.
+ * Each entry accepts a built-in `t` schema or any Standard Schema validator.
+ * Inputs are validated after global middleware and before route middleware.
+ */
+export interface RouteSchema {
+  /** Schema for the parsed request body (failures respond 422) */
+  body?: StandardSchemaV1;
+  /** Schema for query parameters (failures respond 400) */
+  query?: StandardSchemaV1;
+  /** Schema for route parameters (failures respond 400) */
+  params?: StandardSchemaV1;
+  /** Schema for request headers, keyed by lowercase name (failures respond 400) */
+  headers?: StandardSchemaV1;
+  /** Response body schemas keyed by status code (checked before serialization) */
+  response?: ResponseSchemaMap;
+}
+
+/**
+ * Runs when a request arrives, before the context is created and inputs are
+ * parsed. Returning (or resolving to) a `Response` answers the request
+ * without running the route; other return values are ignored.
+ */
+export type OnRequestHook = (request: BunRequest<string>) => unknown;
+
+/**
+ * Runs after middleware, right before the handler. Returning a value other
+ * than `undefined` skips the handler (and `after_handle`) and is sent instead.
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
+ */
+export type BeforeHandleHook<TContext extends object = object> = (
+  context: RouteContext<string> & TContext
+) => unknown;
+
+/**
+ * Runs after the handler with its result. Returning a value other than
+ * `undefined` replaces the result.
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
+ */
+export type AfterHandleHook<TContext extends object = object> = (
+  context: RouteContext<string> & TContext,
+  result: any
+) => unknown;
+
+/**
+ * Runs with the final `Response`, including error responses. Returning (or
+ * resolving to) a `Response` replaces it; other return values are ignored.
+ */
+export type OnResponseHook = (
+  response: Response,
+  request: BunRequest<string>
+) => unknown;
+
+/**
+ * What an `on_error` hook receives besides the error.
+ */
+export interface ErrorContext {
+  /** The request being handled */
+  request: BunRequest<string>;
+  /** Response configuration; `status` is preset from the error (default 500) */
+  set: ResponseSetter;
+}
+
+/**
+ * Runs when handling a request throws. Returning a value other than
+ * `undefined` sends it (built like a handler result) instead of the default
+ * error response; otherwise the next `on_error` hook runs.
+ */
+export type OnErrorHook = (error: unknown, context: ErrorContext) => unknown;
+
+/**
+ * Runs when the server shuts down, after in-flight requests finish.
+ * Use it to close database pools, timers and other resources.
+ */
+export type ShutdownHook = () => Promise<void> | void;
+
+/**
+ * Lifecycle hooks of an app, router or route. App and router hooks run
+ * before route hooks.
+ */
+export interface LifecycleHooks {
+  /** Runs before the context is created; may answer the request early */
+  on_request?: OnRequestHook | OnRequestHook[];
+  /** Runs after middleware, before the handler; may answer early */
+  before_handle?: BeforeHandleHook | BeforeHandleHook[];
+  /** Runs after the handler; may replace its result */
+  after_handle?: AfterHandleHook | AfterHandleHook[];
+  /** Runs with the final response; may replace it */
+  on_response?: OnResponseHook | OnResponseHook[];
+  /** Runs when handling throws; may replace the error response */
+  on_error?: OnErrorHook | OnErrorHook[];
+}
+
+/**
+ * Options accepted when registering a route: input/output schemas,
+ * lifecycle hooks, and documentation metadata used for OpenAPI generation.
+ */
+export interface RouteOptions extends RouteSchema, LifecycleHooks {
+  /** Short summary of the operation */
+  summary?: string;
+  /** Longer description of the operation (CommonMark) */
+  description?: string;
+  /** Tags used to group operations */
+  tags?: string[];
+  /** Unique operation identifier */
+  operation_id?: string;
+  /** Mark the operation as deprecated */
+  deprecated?: boolean;
+  /** Security requirements, e.g. `[{ bearer_auth: [] }]` */
+  security?: Record<string, string[]>[];
+  /** Exclude the route from generated OpenAPI documents */
+  hide?: boolean;
+  /** Route name for building URLs with `url_for()` */
+  name?: string;
+}
+
+/**
+ * Response body schemas keyed by HTTP status code.
+ * @example
+ * { 200: t.object({ id: t.number() }), 404: t.object({ error: t.string() }) }
+ */
+export type ResponseSchemaMap = Record<number, StandardSchemaV1>;
+
+/**
+ * Resolve the allowed handler return type from a route's response schemas.
+ * Routes without response schemas may return anything.
+ * @template TSchema - The route schema
+ */
+export type RouteResponse<TSchema extends RouteSchema> = TSchema extends {
+  response: infer R;
+}
+  ? R extends ResponseSchemaMap
+    ? InferSchemaInput<R[keyof R]>
+    : any
+  : any;
+
+/**
+ * How response schemas are enforced.
+ * - `strict`: mismatches respond 500 with the validation issues (development default)
+ * - `strip`: unknown fields are stripped, mismatches respond with a generic 500 (production default)
+ * - `off`: response schemas are only used for typing
+ */
+export type ResponseValidationMode = 'strict' | 'strip' | 'off';
+
+/**
+ * How registering the same method and path twice is reported:
+ * - `error`: throw when the route is registered or mounted
+ * - `warn`: log a warning and keep both (the later registration wins)
+ * - `off`: no check
+ */
+export type RouteConflictMode = 'error' | 'warn' | 'off';
+
+/**
+ * Internal router configuration supplied by the server.
+ */
+export interface RouterOptions {
+  /** How response schemas are enforced */
+  response_validation?: ResponseValidationMode;
+  /** How duplicate method/path registrations are reported (default: 'error') */
+  route_conflicts?: RouteConflictMode;
+  /** Structured logger configuration for `context.log` */
+  logging?: LoggingOptions;
+}
+
+/**
+ * Resolve the type of a validated request input, falling back when no schema is attached.
+ * @template TSchema - The route schema
+ * @template TKey - The request input to resolve
+ * @template TFallback - Type used when the schema has no entry for TKey
+ */
+export type SchemaOutput<
+  TSchema extends RouteSchema,
+  TKey extends ValidationLocation,
+  TFallback
+> = TSchema extends { [K in TKey]: infer S }
+  ? S extends StandardSchemaV1
+    ? InferSchemaOutput<S>
+    : TFallback
+  : TFallback;
+
+/**
+ * Per-request state shared by middleware and handlers through `context.state`.
+ * Keys are `unknown` unless declared; middleware declares the keys it sets
+ * by augmenting this interface:
+ * @example
+ * declare module 'bunserve' {
+ *   interface ContextState {
+ *     user?: User;
+ *   }
+ * }
+ */
+export interface ContextState extends Record<string, unknown> {}
 
 /**
  * Route context interface providing access to request information and response configuration.
  * @template TPath - The path pattern with parameter placeholders
+ * @template TSchema - Input schemas narrowing params, query, body and headers
  */
-export interface RouteContext<TPath extends string> {
+export interface RouteContext<
+  TPath extends string,
+  TSchema extends RouteSchema = RouteSchema
+> {
   /** The BunRequest object with native params and cookies */
   request: BunRequest<TPath>;
   /** Extracted route parameters from URL path (shorthand for request.params) */
-  params: RouteParams<TPath>;
+  params: SchemaOutput<TSchema, 'params', RouteParams<TPath>>;
   /** Parsed query parameters from URL search string */
-  query: Record<string, string>;
+  query: SchemaOutput<TSchema, 'query', Record<string, string>>;
   /** Parsed request body (null for GET/HEAD requests) */
-  body: any;
+  body: SchemaOutput<TSchema, 'body', any>;
+  /** Request headers keyed by lowercase name */
+  headers: SchemaOutput<TSchema, 'headers', Record<string, string>>;
   /** Cookie management (shorthand for request.cookies) */
   cookies: CookieMap;
   /** Response configuration object for setting status, content type, headers, etc. */
   set: ResponseSetter;
+  /** Per-request state written by middleware (a fresh object for each request) */
+  state: ContextState;
+  /** Structured logger bound to the request ID, method and path */
+  log: Logger;
+  /** Client IP address (undefined for in-process `app.fetch()` requests) */
+  ip?: string;
+  /**
+   * Run a callback with the final response of this request, after the app's
+   * `on_response` hooks; also called when the request failed. Not called for
+   * upgraded WebSocket requests.
+   * @param callback - Receives the response sent to the client
+   */
+  on_response(callback: (response: Response) => Promise<void> | void): void;
+  /** Create a Server-Sent Events response for this request */
+  sse(source: SSESource, options?: SSEOptions): Response;
 }
 
+/**
+ * Handler return values sent as-is instead of being serialized.
+ * `Bun.file()` results are Blobs. `set.headers` and `set.cache` are merged in;
+ * for bodies other than `Response`, `set.status` is used as well.
+ */
+export type RawResponseBody =
+  | Response
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | ReadableStream;
+
 /**
  * Response setter interface for configuring HTTP responses.
  * Provides control over status codes, content types, headers, and caching.
@@ -129,10 +420,14 @@ export interface ResponseSetter {
 /**
  * Bun's native route handler type.
  * Can be a Response object (static route) or a function returning Response/Promise<Response>.
+ * Functions return undefined after upgrading the request to a WebSocket.
  */
 export type BunRouteHandler<TPath extends string = string> =
   | Response
-  | ((req: BunRequest<TPath>) => Response | Promise<Response>);
+  | ((
+      req: BunRequest<TPath>,
+      server?: BunServer<unknown>
+    ) => Response | undefined | Promise<Response | undefined>);
 
 /**
  * Bun's native route definition with per-HTTP-method handlers.
@@ -165,6 +460,24 @@ export interface RouteRegistration<TPath extends string = string> {
   handler: RouteHandler<TPath>;
   /** Route-specific middleware array */
   middlewares: Middleware[];
+  /** Route options (schemas and documentation metadata) */
+  options?: RouteOptions;
+  /** Hooks of the routers the route was mounted from, outermost first */
+  hooks?: LifecycleHooks;
+}
+
+/**
+ * Description of a registered route, returned by `routes()`.
+ */
+export interface RouteInfo {
+  /** HTTP method, 'ALL', or 'WS' for WebSocket routes */
+  method: string;
+  /** Route path pattern, including mount prefixes */
+  path: string;
+  /** Names of route and scoped middleware in run order ('anonymous' when unnamed) */
+  middlewares: string[];
+  /** Route options (schemas and documentation metadata) */
+  options?: RouteOptions;
 }
 
 /**
@@ -196,95 +509,439 @@ export interface DevelopmentOptions {
 }
 
 /**
- * Logging configuration options for development server.
+ * Type-level description of a single registered route, used for end-to-end typing.
  */
-interface LoggingOptions {
-  /** Whether logging is enabled */
-  enabled?: boolean;
-  /** Log level threshold */
-  level?: 'debug' | 'info' | 'warn' | 'error';
+export interface RouteTypes {
+  /** Route parameters */
+  params: unknown;
+  /** Query parameters (undefined when the route has no query schema) */
+  query: unknown;
+  /** Request body (undefined when the route has no body schema) */
+  body: unknown;
+  /** Request headers (undefined when the route has no headers schema) */
+  headers: unknown;
+  /** Handler return type */
+  response: unknown;
+  /** Route name (never when unnamed) */
+  name: unknown;
+}
+
+/**
+ * Type-level map of registered routes: path -> HTTP method -> route types.
+ */
+export type RouteMap = Record<string, Record<string, RouteTypes>>;
+
+/**
+ * Route map of a router with no registered routes.
+ */
+export type NoRoutes = Record<never, never>;
+
+/**
+ * Route map entry produced by registering a single route.
+ * @template TMethod - HTTP method (or 'ALL')
+ * @template TPath - The path pattern
+ * @template TSchema - Route options with input schemas
+ * @template TResult - Handler return type
+ * @template TName - Route name given in the options (never when unnamed)
+ */
+export type RouteDefinition<
+  TMethod extends string,
+  TPath extends string,
+  TSchema extends RouteSchema,
+  TResult,
+  TName extends string = never
+> = {
+  [P in TPath]: {
+    [M in TMethod]: {
+      params: SchemaOutput<TSchema, 'params', RouteParams<TPath>>;
+      query: SchemaOutput<TSchema, 'query', undefined>;
+      body: SchemaOutput<TSchema, 'body', undefined>;
+      headers: SchemaOutput<TSchema, 'headers', undefined>;
+      response: Awaited<TResult>;
+      name: TName;
+    };
+  };
+};
+
+/**
+ * Names of the routes in a route map.
+ */
+export type RouteNames<TRoutes extends RouteMap> = {
+  [P in keyof TRoutes]: {
+    [M in keyof TRoutes[P]]: TRoutes[P][M]['name'];
+  }[keyof TRoutes[P]];
+}[keyof TRoutes] &
+  string;
+
+/**
+ * Params accepted by `url_for()` for a route name, derived from the
+ * route's path. Names unknown to the route map accept any params.
+ */
+export type NamedRouteParams<TRoutes extends RouteMap, TName extends string> = [
+  RouteNames<TRoutes>
+] extends [never]
+  ? Record<string, string | number>
+  : {
+      [P in keyof TRoutes & string]: TName extends RouteNames<Pick<TRoutes, P>>
+        ? {
+            [K in keyof RouteParams<P>]: NonNullable<
+              RouteParams<P>[K]
+            > extends string
+              ? string | number
+              : RouteParams<P>[K];
+          }
+        : never;
+    }[keyof TRoutes & string];
+
+/**
+ * Options for `url_for()`.
+ */
+export interface UrlForOptions {
+  /** Query parameters appended to the URL; arrays repeat the key */
+  query?: Record<
+    string,
+    string | number | boolean | (string | number | boolean)[] | undefined
+  >;
+}
+
+/**
+ * Arguments after the name in `url_for()`: params are optional when the
+ * route has no required params.
+ */
+export type UrlForArgs<TParams> = Record<never, never> extends TParams
+  ? [params?: TParams, options?: UrlForOptions]
+  : [params: TParams, options?: UrlForOptions];
+
+/**
+ * Prefix every path of a route map, used when mounting sub-routers.
+ */
+export type PrefixRoutes<TPrefix extends string, TRoutes extends RouteMap> = {
+  [P in keyof TRoutes as `${TPrefix}${P & string}`]: TRoutes[P];
+};
+
+/**
+ * Describes what registration methods return, so a `Server` keeps returning
+ * a `Server` while a plain router returns a `Router`.
+ * Implementations read the accumulated route map from `this['routes']` and
+ * the context extensions from `this['context']`.
+ */
+export interface RouterKind {
+  readonly routes: NoRoutes;
+  readonly context: object;
+  readonly self: unknown;
+}
+
+/**
+ * Router kind for plain routers created with `router()`.
+ */
+export interface DefaultRouterKind extends RouterKind {
+  readonly self: Router<this['routes'], DefaultRouterKind, this['context']>;
+}
+
+/**
+ * Resolve the router type returned by a registration method.
+ */
+export type ApplyRouterKind<
+  TKind extends RouterKind,
+  TRoutes extends RouteMap,
+  TContext extends object
+> = (TKind & { readonly routes: TRoutes; readonly context: TContext })['self'];
+
+/**
+ * Overloaded route registration method. Each call returns the router with
+ * the new route added to its type-level route map.
+ * @template TMethod - HTTP method (or 'ALL')
+ * @template TRoutes - Routes registered so far
+ * @template TKind - Router kind (determines the returned router type)
+ * @template TContext - Context extensions from `derive()`/`decorate()`
+ */
+export interface RouteRegistrar<
+  TMethod extends string,
+  TRoutes extends RouteMap,
+  TKind extends RouterKind,
+  TContext extends object
+> {
+  /** Register a route */
+  <
+    Path extends string,
+    TSchema extends RouteOptions = RouteOptions,
+    TResult extends RouteResponse<TSchema> = RouteResponse<TSchema>,
+    TName extends string = never
+  >(
+    path: Path,
+    handler: RouteHandler<Path, TSchema, TResult, TContext>,
+    options?: TSchema & { name?: TName }
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & RouteDefinition<TMethod, Path, TSchema, TResult, TName>,
+    TContext
+  >;
+
+  /** Register a route with middleware array */
+  <
+    Path extends string,
+    TSchema extends RouteOptions = RouteOptions,
+    TResult extends RouteResponse<TSchema> = RouteResponse<TSchema>,
+    TName extends string = never
+  >(
+    path: Path,
+    middlewares: Middleware<TContext>[],
+    handler: RouteHandler<Path, TSchema, TResult, TContext>,
+    options?: TSchema & { name?: TName }
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & RouteDefinition<TMethod, Path, TSchema, TResult, TName>,
+    TContext
+  >;
+}
+
+/**
+ * Route registration method bound to the path given to `route()`.
+ * @template Path - Route path pattern
+ * @template TContext - Context extensions from `derive()`/`decorate()`
+ */
+export interface PathRouteRegistrar<
+  Path extends string,
+  TContext extends object = object
+> {
+  /** Register a handler for the path */
+  <
+    TSchema extends RouteOptions = RouteOptions,
+    TResult extends RouteResponse<TSchema> = RouteResponse<TSchema>
+  >(
+    handler: RouteHandler<Path, TSchema, TResult, TContext>,
+    options?: TSchema
+  ): RouteChain<Path, TContext>;
+
+  /** Register a handler for the path with middleware array */
+  <
+    TSchema extends RouteOptions = RouteOptions,
+    TResult extends RouteResponse<TSchema> = RouteResponse<TSchema>
+  >(
+    middlewares: Middleware<TContext>[],
+    handler: RouteHandler<Path, TSchema, TResult, TContext>,
+    options?: TSchema
+  ): RouteChain<Path, TContext>;
 }
 
+/**
+ * Fluent registration of several methods on one path, returned by `route()`.
+ * @template Path - Route path pattern (params are typed for every method)
+ * @template TContext - Context extensions from `derive()`/`decorate()`
+ */
+export interface RouteChain<
+  Path extends string,
+  TContext extends object = object
+> {
+  get: PathRouteRegistrar<Path, TContext>;
+  post: PathRouteRegistrar<Path, TContext>;
+  put: PathRouteRegistrar<Path, TContext>;
+  patch: PathRouteRegistrar<Path, TContext>;
+  delete: PathRouteRegistrar<Path, TContext>;
+  options: PathRouteRegistrar<Path, TContext>;
+  head: PathRouteRegistrar<Path, TContext>;
+  all: PathRouteRegistrar<Path, TContext>;
+}
+
+/**
+ * Route map of the router a `group()` callback returns (empty otherwise).
+ */
+export type GroupRoutes<TResult> = TResult extends Router<any, any, any>
+  ? NonNullable<TResult['~routes']>
+  : NoRoutes;
+
 /**
  * Router interface defining the public API for route registration and middleware management.
+ * @template TRoutes - Type-level map of registered routes (used by `client()`)
+ * @template TKind - Router kind (determines the type returned by registration methods)
+ * @template TContext - Properties added to the context by `derive()`/`decorate()`
  */
-export interface Router {
+export interface Router<
+  TRoutes extends RouteMap = NoRoutes,
+  TKind extends RouterKind = DefaultRouterKind,
+  TContext extends object = object
+> {
+  /**
+   * Type-level route map. Never set at runtime.
+   * @internal
+   */
+  readonly '~routes'?: TRoutes;
+
   /** Register a GET route */
-  get<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  get: RouteRegistrar<'GET', TRoutes, TKind, TContext>;
   /** Register a POST route */
-  post<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  post: RouteRegistrar<'POST', TRoutes, TKind, TContext>;
   /** Register a PUT route */
-  put<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  put: RouteRegistrar<'PUT', TRoutes, TKind, TContext>;
   /** Register a PATCH route */
-  patch<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  patch: RouteRegistrar<'PATCH', TRoutes, TKind, TContext>;
   /** Register a DELETE route */
-  delete<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  delete: RouteRegistrar<'DELETE', TRoutes, TKind, TContext>;
   /** Register an OPTIONS route */
-  options<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  options: RouteRegistrar<'OPTIONS', TRoutes, TKind, TContext>;
   /** Register a HEAD route */
-  head<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
+  head: RouteRegistrar<'HEAD', TRoutes, TKind, TContext>;
   /** Register a route for all HTTP methods */
-  all<Path extends string>(path: Path, handler: RouteHandler<Path>): void;
-
-  /** Add global middleware or mount sub-router at path */
-  use(middleware: Middleware): void;
-  use(path: string, router: Router): void;
+  all: RouteRegistrar<'ALL', TRoutes, TKind, TContext>;
 
-  /** Register a POST route with middleware array */
-  post<Path extends string>(
+  /** Register a WebSocket route; global middleware runs during the upgrade */
+  ws<
+    Path extends string,
+    TData = undefined,
+    TSchema extends StandardSchemaV1 | undefined = undefined
+  >(
     path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
-
-  /** Register a GET route with middleware array */
-  get<Path extends string>(
+    route: WebSocketRoute<Path, TData, TSchema>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Register a WebSocket route with middleware run during the upgrade */
+  ws<
+    Path extends string,
+    TData = undefined,
+    TSchema extends StandardSchemaV1 | undefined = undefined
+  >(
     path: Path,
     middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+    route: WebSocketRoute<Path, TData, TSchema>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
 
-  /** Register a PUT route with middleware array */
-  put<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /**
+   * Set the handler for requests no route matches. It runs after global
+   * middleware with `set.status` preset to 404.
+   */
+  not_found(
+    handler: RouteHandler<string, RouteSchema, any, TContext>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
 
-  /** Register a PATCH route with middleware array */
-  patch<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /** Add global middleware */
+  use(
+    middleware: Middleware<TContext>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Mount sub-router at path; its middleware only runs for its routes */
+  use<TPrefix extends string, TSubRoutes extends RouteMap>(
+    path: TPrefix,
+    router: Router<TSubRoutes, any, any>
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & PrefixRoutes<TPrefix, TSubRoutes>,
+    TContext
+  >;
+  /** Mount sub-router at path with middleware run before its routes */
+  use<TPrefix extends string, TSubRoutes extends RouteMap>(
+    path: TPrefix,
+    middlewares: Middleware<TContext>[],
+    router: Router<TSubRoutes, any, any>
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & PrefixRoutes<TPrefix, TSubRoutes>,
+    TContext
+  >;
 
-  /** Register a DELETE route with middleware array */
-  delete<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /**
+   * Register routes under a shared prefix. The callback receives a fresh
+   * router; return it from the callback to keep its route types.
+   */
+  group<TPrefix extends string, TResult>(
+    prefix: TPrefix,
+    callback: (group: Router<NoRoutes, DefaultRouterKind, TContext>) => TResult
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & PrefixRoutes<TPrefix, GroupRoutes<TResult>>,
+    TContext
+  >;
+  /** Register routes under a shared prefix with middleware run before them */
+  group<TPrefix extends string, TResult>(
+    prefix: TPrefix,
+    middlewares: Middleware<TContext>[],
+    callback: (group: Router<NoRoutes, DefaultRouterKind, TContext>) => TResult
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & PrefixRoutes<TPrefix, GroupRoutes<TResult>>,
+    TContext
+  >;
 
-  /** Register an OPTIONS route with middleware array */
-  options<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /** Add a hook run when a request arrives, before its context is created */
+  on_request(hook: OnRequestHook): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Add a hook run after middleware, right before the handler */
+  before_handle(
+    hook: BeforeHandleHook<TContext>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Add a hook run after the handler, which may replace its result */
+  after_handle(
+    hook: AfterHandleHook<TContext>
+  ): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Add a hook run with the final response, which may replace it */
+  on_response(hook: OnResponseHook): ApplyRouterKind<TKind, TRoutes, TContext>;
+  /** Add a hook run when handling a request throws */
+  on_error(hook: OnErrorHook): ApplyRouterKind<TKind, TRoutes, TContext>;
 
-  /** Register a HEAD route with middleware array */
-  head<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /**
+   * Install a plugin. Its routes are mounted under `options.prefix`; unless
+   * the plugin sets `encapsulate: false`, its middleware, hooks and context
+   * extensions only apply to its own routes. A plugin name registered twice
+   * is ignored.
+   */
+  register<
+    TOptions,
+    TResult,
+    TEncapsulate extends boolean,
+    TPrefix extends string = ''
+  >(
+    plugin: Plugin<TOptions, TResult, TEncapsulate>,
+    ...args: RegisterArgs<TOptions, TPrefix>
+  ): ApplyRouterKind<
+    TKind,
+    TRoutes & PrefixRoutes<TPrefix, PluginRoutes<TResult>>,
+    TContext & PluginContext<TResult, TEncapsulate>
+  >;
 
-  /** Register a route for all HTTP methods with middleware array */
-  all<Path extends string>(
-    path: Path,
-    middlewares: Middleware[],
-    handler: RouteHandler<Path>
-  ): void;
+  /** Wait until plugins with an async setup are installed */
+  ready(): Promise<void>;
+
+  /** Add a hook run when the server shuts down, last added first */
+  on_shutdown(hook: ShutdownHook): ApplyRouterKind<TKind, TRoutes, TContext>;
+
+  /** Register several methods on one path: `route(path).get(...).put(...)` */
+  route<Path extends string>(path: Path): RouteChain<Path, TContext>;
+
+  /**
+   * Add a value to the context of every request handled after this call.
+   * Middleware and handlers registered later see it typed.
+   */
+  decorate<TName extends string, TValue>(
+    name: TName,
+    value: TValue
+  ): ApplyRouterKind<TKind, TRoutes, TContext & { [K in TName]: TValue }>;
+  /** Add several values to the context of every request */
+  decorate<TValues extends object>(
+    values: TValues
+  ): ApplyRouterKind<TKind, TRoutes, TContext & TValues>;
+
+  /**
+   * Compute properties for each request and add them to its context. Runs as
+   * global middleware, in order with `use()`; middleware and handlers
+   * registered later see the properties typed.
+   */
+  derive<TDerived extends object>(
+    derive: (
+      context: RouteContext<string> & TContext
+    ) => TDerived | Promise<TDerived>
+  ): ApplyRouterKind<TKind, TRoutes, TContext & TDerived>;
+
+  /**
+   * Build the URL path of a named route, filling in params (optional
+   * segments are left out when their param is missing) and query.
+   */
+  url_for<
+    TName extends [RouteNames<TRoutes>] extends [never]
+      ? string
+      : RouteNames<TRoutes>
+  >(name: TName, ...args: UrlForArgs<NamedRouteParams<TRoutes, TName>>): string;
+
+  /** List registered routes (HTTP and WebSocket) in registration order */
+  routes(): RouteInfo[];
+
+  /** Generate an OpenAPI 3.1 document, optionally serving it and an HTML viewer */
+  openapi(options: OpenAPIOptions): OpenAPIDocument;
 
   /**
    * Build and return Bun-compatible routes object.
@@ -0,0 +1,222 @@
+import type { ServerWebSocket, WebSocketHandler } from 'bun';
+import {
+  type InferSchemaOutput,
+  type StandardSchemaV1,
+  to_validation_issues,
+  validate_schema
+} from './schema';
+import type { Middleware, RouteContext, RouteParams } from './types';
+
+/**
+ * Per-connection data attached to every WebSocket (`ws.data`).
+ * @template TPath - Route path pattern
+ * @template TData - Data returned by the route's `upgrade` hook
+ */
+export interface WebSocketData<
+  TPath extends string = string,
+  TData = undefined
+> {
+  /** Route parameters captured during the upgrade */
+  params: RouteParams<TPath>;
+  /** Query parameters of the upgrade request */
+  query: Record<string, string>;
+  /** Upgrade request headers keyed by lowercase name */
+  headers: Record<string, string>;
+  /** Data returned by the `upgrade` hook */
+  data: TData;
+}
+
+/**
+ * Server-side WebSocket for a route, typed with its per-connection data.
+ * Supports Bun's topic pub/sub: `ws.subscribe(topic)`, `ws.publish(topic, data)`.
+ */
+export type WebSocketConnection<
+  TPath extends string = string,
+  TData = undefined
+> = ServerWebSocket<WebSocketData<TPath, TData>>;
+
+/**
+ * Incoming message type: the schema output when a message schema is set,
+ * otherwise the raw text or binary message.
+ */
+export type WebSocketMessage<TSchema> = TSchema extends StandardSchemaV1
+  ? InferSchemaOutput<TSchema>
+  : string | Buffer;
+
+/**
+ * WebSocket route handlers registered with `app.ws()`.
+ * @template TPath - Route path pattern
+ * @template TData - Per-connection data returned by `upgrade`
+ * @template TSchema - Optional schema for incoming JSON messages
+ */
+export interface WebSocketRoute<
+  TPath extends string = string,
+  TData = undefined,
+  TSchema extends StandardSchemaV1 | undefined = undefined
+> {
+  /**
+   * Runs after the middleware chain, before upgrading.
+   * The returned value becomes `ws.data.data`; throw to reject the upgrade.
+   */
+  upgrade?: (context: RouteContext<TPath>) => TData | Promise<TData>;
+  /**
+   * Schema for incoming messages. Text messages are parsed as JSON and
+   * validated; failures are answered with `{ error, issues }` and not delivered.
+   */
+  schema?: TSchema;
+  /** Called when the connection opens */
+  open?(ws: WebSocketConnection<TPath, TData>): void | Promise<void>;
+  /** Called for every incoming message */
+  message?(
+    ws: WebSocketConnection<TPath, TData>,
+    message: WebSocketMessage<TSchema>
+  ): void | Promise<void>;
+  /** Called when the connection closes */
+  close?(
+    ws: WebSocketConnection<TPath, TData>,
+    code: number,
+    reason: string
+  ): void | Promise<void>;
+  /** Called when the socket is ready to receive more data after backpressure */
+  drain?(ws: WebSocketConnection<TPath, TData>): void | Promise<void>;
+}
+
+/**
+ * Internal WebSocket route registration.
+ */
+export interface WebSocketRegistration {
+  /** Route path pattern */
+  path: string;
+  /** Route handlers */
+  route: WebSocketRoute<any, any, any>;
+  /** Route-specific middleware run during the upgrade */
+  middlewares: Middleware[];
+}
+
+/**
+ * Route handlers for each open connection, keyed by its `ws.data` object.
+ */
+const connection_routes = new WeakMap<
+  WebSocketData<string, unknown>,
+  WebSocketRoute<any, any, any>
+>();
+
+/**
+ * Create the per-connection data for an upgrade and remember its route.
+ * @param route - WebSocket route handlers
+ * @param context - Route context of the upgrade request
+ * @param data - Data returned by the `upgrade` hook
+ * @returns Object to pass as `ws.data`
+ */
+export function create_connection_data(
+  route: WebSocketRoute<any, any, any>,
+  context: RouteContext<string>,
+  data: unknown
+): WebSocketData<string, unknown> {
+  const connection: WebSocketData<string, unknown> = {
+    params: context.params,
+    query: context.query,
+    headers: context.headers,
+    data
+  };
+  connection_routes.set(connection, route);
+  return connection;
+}
+
+/**
+ * Check whether a request asks for a WebSocket upgrade.
+ * @param request - Incoming request
+ * @returns True when the `Upgrade` header is `websocket`
+ */
+export function is_websocket_upgrade(request: Request): boolean {
+  return request.headers.get('upgrade')?.toLowerCase() === 'websocket';
+}
+
+/**
+ * Decode and validate an incoming message against a route's schema.
+ * @param schema - Message schema
+ * @param message - Raw message
+ * @returns Validated value, or the error payload to send back
+ */
+async function parse_message(
+  schema: StandardSchemaV1,
+  message: string | Buffer
+): Promise<{ value: unknown } | { error: Record<string, unknown> }> {
+  let value: unknown;
+  try {
+    value = JSON.parse(
+      typeof message === 'string' ? message : message.toString('utf8')
+    );
+  } catch {
+    return { error: { error: 'Malformed JSON' } };
+  }
+
+  const outcome = await validate_schema(schema, value);
+  if (outcome.issues) {
+    return {
+      error: {
+        error: 'Validation failed',
+        issues: to_validation_issues('message', outcome.issues)
+      }
+    };
+  }
+  return { value: outcome.value };
+}
+
+/**
+ * Create the Bun `websocket` handler that dispatches events to the
+ * route each connection was upgraded on.
+ * @returns Bun WebSocket handler for `Bun.serve`
+ */
+export function create_websocket_handler(): WebSocketHandler<
+  WebSocketData<string, unknown>
+> {
+  const route_of = (ws: ServerWebSocket<WebSocketData<string, unknown>>) =>
+    connection_routes.get(ws.data);
+
+  return {
+    async open(ws) {
+      try {
+        await route_of(ws)?.open?.(ws);
+      } catch (error) {
+        console.error('WebSocket open error:', error);
+      }
+    },
+
+    async message(ws, message) {
+      const route = route_of(ws);
+      if (!route?.message) return;
+
+      try {
+        if (route.schema) {
+          const parsed = await parse_message(route.schema, message);
+          if ('error' in parsed) {
+            ws.send(JSON.stringify(parsed.error));
+            return;
+          }
+          await route.message(ws, parsed.value);
+        } else {
+          await route.message(ws, message);
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+      }
+    },
+
+    async close(ws, code, reason) {
+      try {
+        await route_of(ws)?.close?.(ws, code, reason);
+      } catch (error) {
+        console.error('WebSocket close error:', error);
+      }
+    },
+
+    async drain(ws) {
+      try {
+        await route_of(ws)?.drain?.(ws);
+      } catch (error) {
+        console.error('WebSocket drain error:', error);
+      }
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import { expect, test } from 'bun:test';
+import { bunserve, client, router, t } from '../src';
+
+const users = router()
+  .get('/:id', ({ params }) => ({ id: params.id, name: 'Ada' }))
+  .delete('/:id', ({ set }) => {
+    set.status = 204;
+    return null;
+  });
+
+const app = bunserve()
+  .get('/', () => 'home')
+  .get('/search', ({ query }) => ({ q: query.q, tags: query.tags }), {
+    query: t.object({ q: t.string(), tags: t.optional(t.array(t.string())) })
+  })
+  .post('/users', ({ body }) => ({ created: body.name }), {
+    body: t.object({ name: t.string() })
+  })
+  .get('/secure', ({ request }) => ({
+    key: request.headers.get('x-api-key')
+  }))
+  .get('/files/*', ({ request }) => new URL(request.url).pathname)
+  .group('/v1', (v1) => v1.get('/ping', () => ({ pong: true })))
+  .use('/users', users);
+
+const api = client<typeof app>('http://localhost', {
+  fetch: (request) => app.fetch(request)
+});
+
+test('client - calls root and plain routes', async () => {
+  const result = await api.get();
+
+  expect(result.ok).toBe(true);
+  expect(result.status).toBe(200);
+  expect(result.data).toBe('home');
+});
+
+test('client - serializes query values including arrays', async () => {
+  const result = await api.search.get({
+    query: { q: 'bun', tags: ['a', 'b'] }
+  });
+
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    expect(result.data).toEqual({ q: 'bun', tags: ['a', 'b'] });
+  }
+});
+
+test('client - sends JSON body and reads typed response', async () => {
+  const result = await api.users.post({ body: { name: 'Grace' } });
+
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    const created: string = result.data.created;
+    expect(created).toBe('Grace');
+  }
+});
+
+test('client - reports validation failures without throwing', async () => {
+  const result = await api.users.post({ body: { name: 1 as any } });
+
+  expect(result.ok).toBe(false);
+  expect(result.status).toBe(422);
+  expect((result.data as any).issues[0].path).toEqual(['name']);
+});
+
+test('client - fills params on mounted routes', async () => {
+  const result = await api.users[':id'].get({ params: { id: 42 } });
+
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    expect(result.data).toEqual({ id: '42', name: 'Ada' });
+  }
+
+  const removed = await api.users[':id'].delete({ params: { id: 'x' } });
+  expect(removed.status).toBe(204);
+  expect(removed.data).toBeNull();
+});
+
+test('client - encodes params and keeps wildcard slashes', async () => {
+  const result = await api.files['*'].get({
+    params: { '*': 'docs/read me.txt' }
+  });
+
+  expect(result.data).toBe('/files/docs/read%20me.txt');
+});
+
+test('client - merges default and per-call headers', async () => {
+  const secured = client<typeof app>('http://localhost', {
+    headers: { 'x-api-key': 'default' },
+    fetch: (request) => app.fetch(request)
+  });
+
+  const defaults = await secured.secure.get();
+  expect(defaults.data).toEqual({ key: 'default' });
+
+  const overridden = await secured.secure.get({
+    headers: { 'x-api-key': 'override' }
+  });
+  expect(overridden.data).toEqual({ key: 'override' });
+});
+
+test('client - throws when a route param is missing', () => {
+  expect(() => api.users[':id'].get({ params: {} as any })).toThrow(
+    'Missing route parameter "id"'
+  );
+});
+
+test('client - includes routes registered in groups', async () => {
+  const result = await api.v1.ping.get();
+
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    const pong: boolean = result.data.pong;
+    expect(pong).toBe(true);
+  }
+});
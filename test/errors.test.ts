@@ -0,0 +1,273 @@
+import { expect, test } from 'bun:test';
+import {
+  bunserve,
+  error_handler,
+  HttpError,
+  NotFoundError,
+  PROBLEM_CONTENT_TYPE,
+  type ProblemDetails,
+  t,
+  ValidationError
+} from '../src/index';
+
+test('HttpError - factories set status, code and defaults', () => {
+  const not_found = HttpError.not_found();
+  expect(not_found).toBeInstanceOf(NotFoundError);
+  expect(not_found).toBeInstanceOf(HttpError);
+  expect(not_found.name).toBe('NotFoundError');
+  expect(not_found.status).toBe(404);
+  expect(not_found.code).toBe('NOT_FOUND');
+  expect(not_found.message).toBe('Not Found');
+  expect(not_found.expose).toBe(true);
+
+  expect(HttpError.internal('Database down').expose).toBe(false);
+  expect(new HttpError(402, 'Upgrade', { code: 'PLAN_LIMIT' }).code).toBe(
+    'PLAN_LIMIT'
+  );
+  expect(
+    HttpError.unauthorized('Login', { challenge: 'Bearer' }).headers
+  ).toEqual({ 'WWW-Authenticate': 'Bearer' });
+  expect(
+    HttpError.too_many_requests('Slow down', { retry_after: 30 }).headers
+  ).toEqual({ 'Retry-After': '30' });
+  expect(new ValidationError([])).toBeInstanceOf(HttpError);
+});
+
+test('HttpError - answers without error middleware', async () => {
+  const app = bunserve();
+
+  app.get('/users/:id', ({ params }) => {
+    throw HttpError.not_found('User not found', { details: { id: params.id } });
+  });
+  app.get('/limited', () => {
+    throw HttpError.too_many_requests('Slow down', { retry_after: 30 });
+  });
+  app.get('/internal', () => {
+    throw HttpError.internal('Connection string: postgres://secret');
+  });
+
+  const not_found = await app.fetch(new Request('http://localhost/users/42'));
+  expect(not_found.status).toBe(404);
+  expect(await not_found.json()).toEqual({
+    error: 'User not found',
+    status: 404,
+    code: 'NOT_FOUND',
+    details: { id: '42' }
+  });
+
+  const limited = await app.fetch(new Request('http://localhost/limited'));
+  expect(limited.status).toBe(429);
+  expect(limited.headers.get('retry-after')).toBe('30');
+
+  // Unexposed errors only reveal their status
+  const internal = await app.fetch(new Request('http://localhost/internal'));
+  expect(internal.status).toBe(500);
+  expect(await internal.json()).toEqual({
+    error: 'Internal Server Error',
+    status: 500,
+    code: 'INTERNAL_SERVER_ERROR'
+  });
+});
+
+test('HttpError - error_handler uses status, code and headers', async () => {
+  const app = bunserve();
+  app.use(error_handler({ include_stack: false }));
+
+  app.get('/me', () => {
+    throw HttpError.unauthorized('Token expired', {
+      code: 'TOKEN_EXPIRED',
+      challenge: 'Bearer error="invalid_token"'
+    });
+  });
+
+  const response = await app.fetch(new Request('http://localhost/me'));
+  expect(response.status).toBe(401);
+  expect(response.headers.get('www-authenticate')).toBe(
+    'Bearer error="invalid_token"'
+  );
+  expect(await response.json()).toEqual({
+    error: 'Token expired',
+    status: 401,
+    code: 'TOKEN_EXPIRED'
+  });
+});
+
+test('error_handler - problem_details format follows RFC 9457', async () => {
+  const app = bunserve();
+  app.use(
+    error_handler({
+      format: 'problem_details',
+      include_stack: false,
+      problem_type_base: 'https://example.com/problems/'
+    })
+  );
+
+  app.get('/orders/:id', () => {
+    throw HttpError.conflict('Order already shipped', {
+      code: 'ORDER_SHIPPED',
+      details: { shipped_at: '2025-01-01' }
+    });
+  });
+  app.get('/crash', () => {
+    throw new Error('Connection string: postgres://secret');
+  });
+
+  const conflict = await app.fetch(new Request('http://localhost/orders/7'));
+  expect(conflict.status).toBe(409);
+  expect(conflict.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+  const problem = (await conflict.json()) as ProblemDetails;
+  expect(problem).toMatchObject({
+    type: 'https://example.com/problems/order-shipped',
+    title: 'Conflict',
+    status: 409,
+    detail: 'Order already shipped',
+    instance: '/orders/7',
+    code: 'ORDER_SHIPPED',
+    shipped_at: '2025-01-01'
+  });
+  expect(typeof problem.request_id).toBe('string');
+
+  // Server errors only reveal their status
+  const crash = await app.fetch(new Request('http://localhost/crash'));
+  const hidden = (await crash.json()) as ProblemDetails;
+  expect(crash.status).toBe(500);
+  expect(hidden.type).toBe('about:blank');
+  expect(hidden.title).toBe('Internal Server Error');
+  expect(hidden.detail).toBeUndefined();
+});
+
+test('error_handler - problem_details maps validation issues to errors', async () => {
+  const app = bunserve();
+  app.use(error_handler({ format: 'problem_details', include_stack: false }));
+
+  app.post('/orders', () => {
+    throw new ValidationError(
+      [
+        { location: 'body', path: ['items', 0, 'sku'], message: 'Required' },
+        { location: 'query', path: ['page'], message: 'Expected a number' }
+      ],
+      422
+    );
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/orders', { method: 'POST' })
+  );
+  expect(response.status).toBe(422);
+  const problem = (await response.json()) as ProblemDetails;
+  expect(problem.code).toBe('VALIDATION_FAILED');
+  expect(problem.errors).toEqual([
+    { detail: 'Required', pointer: '#/items/0/sku' },
+    { detail: 'Expected a number', parameter: 'page' }
+  ]);
+});
+
+test('error_handler - problem_details answers route schema failures', async () => {
+  const app = bunserve();
+  app.use(
+    error_handler({
+      format: 'problem_details',
+      include_stack: false,
+      log_error: () => {}
+    })
+  );
+
+  app.post('/orders', ({ body }) => body, {
+    body: t.object({ items: t.array(t.object({ sku: t.string() })) }),
+    query: t.object({ page: t.optional(t.integer()) })
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/orders?page=two', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: [{}] })
+    })
+  );
+  expect(response.status).toBe(400);
+  expect(response.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+  const problem = (await response.json()) as ProblemDetails;
+  expect(problem.code).toBe('VALIDATION_FAILED');
+  expect(problem.instance).toBe('/orders');
+  expect(
+    problem.errors?.map((error) => error.pointer ?? error.parameter)
+  ).toEqual(['page', '#/items/0/sku']);
+});
+
+test('error_handler - negotiates HTML, text or JSON from Accept', async () => {
+  const app = bunserve();
+  app.use(error_handler({ include_stack: false }));
+
+  app.get('/users/:id', () => {
+    throw HttpError.not_found('User <42> not found');
+  });
+
+  const fetch_with = (accept?: string) =>
+    app.fetch(
+      new Request('http://localhost/users/42', {
+        headers: accept ? { Accept: accept } : {}
+      })
+    );
+
+  const html = await fetch_with(
+    'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+  );
+  expect(html.status).toBe(404);
+  expect(html.headers.get('content-type')).toContain('text/html');
+  const page = await html.text();
+  expect(page).toContain('404 Not Found');
+  expect(page).toContain('User &lt;42&gt; not found');
+
+  const text = await fetch_with('text/plain');
+  expect(text.headers.get('content-type')).toContain('text/plain');
+  expect(await text.text()).toBe('404 Not Found\nUser <42> not found\n');
+
+  // JSON stays the default for API clients
+  for (const accept of [undefined, '*/*', 'application/json, text/html']) {
+    const json = await fetch_with(accept);
+    expect(json.headers.get('content-type')).toContain('application/json');
+  }
+});
+
+test('error_handler - development page shows stack, source and request', async () => {
+  const app = bunserve();
+  app.use(error_handler({ include_stack: true, log_error: () => {} }));
+
+  app.get('/crash', () => {
+    throw new Error('Database unreachable');
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/crash', {
+      headers: { Accept: 'text/html', Cookie: 'session=secret' }
+    })
+  );
+  expect(response.status).toBe(500);
+  const page = await response.text();
+  expect(page).toContain('Database unreachable');
+  expect(page).toContain('errors.test.ts');
+  expect(page).toContain('throw new Error(&#39;Database unreachable&#39;)');
+  // The source excerpt shows this test's own lines, so check the request table
+  expect(page).toContain('<th>cookie</th><td>[redacted]</td>');
+  expect(page).not.toContain('<td>session=secret</td>');
+});
+
+test('error_handler - html_template renders custom error pages', async () => {
+  const app = bunserve();
+  app.use(
+    error_handler({
+      include_stack: false,
+      html_template: (page) => `<h1>${page.status}: ${page.message}</h1>`
+    })
+  );
+
+  app.get('/crash', () => {
+    throw new Error('Connection string: postgres://secret');
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/crash', { headers: { Accept: 'text/html' } })
+  );
+  expect(response.status).toBe(500);
+  expect(await response.text()).toBe('<h1>500: Internal Server Error</h1>');
+});
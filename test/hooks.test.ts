@@ -0,0 +1,170 @@
+import { expect, test } from 'bun:test';
+import { bunserve, router } from '../src/index';
+
+test('hooks - run around middleware and the handler in order', async () => {
+  const app = bunserve();
+  const calls: string[] = [];
+
+  app.on_request(() => {
+    calls.push('on_request');
+  });
+  app.use(async (_context, next) => {
+    calls.push('middleware');
+    await next();
+  });
+  app.before_handle(() => {
+    calls.push('before_handle');
+  });
+  app.after_handle(() => {
+    calls.push('after_handle');
+  });
+  app.on_response(() => {
+    calls.push('on_response');
+  });
+
+  app.get('/', () => {
+    calls.push('handler');
+    return 'ok';
+  });
+
+  const response = await app.fetch(new Request('http://localhost/'));
+  expect(await response.text()).toBe('ok');
+  expect(calls).toEqual([
+    'on_request',
+    'middleware',
+    'before_handle',
+    'handler',
+    'after_handle',
+    'on_response'
+  ]);
+});
+
+test('hooks - on_request and before_handle can answer early', async () => {
+  const app = bunserve();
+  let handled = false;
+
+  app.on_request((request) => {
+    if (request.headers.get('x-blocked')) {
+      return new Response('Blocked', { status: 429 });
+    }
+  });
+  app.before_handle(({ headers, set }) => {
+    if (!headers.authorization) {
+      set.status = 401;
+      return { error: 'Unauthorized' };
+    }
+  });
+  app.get('/', () => {
+    handled = true;
+    return 'ok';
+  });
+
+  const blocked = await app.fetch(
+    new Request('http://localhost/', { headers: { 'x-blocked': '1' } })
+  );
+  expect(blocked.status).toBe(429);
+
+  const unauthorized = await app.fetch(new Request('http://localhost/'));
+  expect(unauthorized.status).toBe(401);
+  expect(await unauthorized.json()).toEqual({ error: 'Unauthorized' });
+  expect(handled).toBe(false);
+});
+
+test('hooks - after_handle replaces results and on_response replaces responses', async () => {
+  const app = bunserve();
+
+  app.after_handle((_context, result) => ({ data: result }));
+  app.on_response((response) => {
+    const headers = new Headers(response.headers);
+    headers.set('x-wrapped', 'true');
+    return new Response(response.body, { status: response.status, headers });
+  });
+  app.get('/user', () => ({ name: 'Ada' }));
+
+  const response = await app.fetch(new Request('http://localhost/user'));
+  expect(response.headers.get('x-wrapped')).toBe('true');
+  expect(await response.json()).toEqual({ data: { name: 'Ada' } });
+
+  // on_response also sees unmatched requests
+  const missing = await app.fetch(new Request('http://localhost/missing'));
+  expect(missing.status).toBe(404);
+  expect(missing.headers.get('x-wrapped')).toBe('true');
+});
+
+test('hooks - on_error replaces the default error response', async () => {
+  const app = bunserve();
+  const errors: unknown[] = [];
+
+  app.use(async ({ set }, next) => {
+    set.headers['x-request-id'] = 'abc';
+    await next();
+  });
+  app.on_error((error) => {
+    errors.push(error);
+  });
+  app.on_error((error, { set }) => {
+    if (set.status === 418) return undefined;
+    return { error: (error as Error).message, status: set.status };
+  });
+
+  app.get('/boom', () => {
+    throw new Error('Boom');
+  });
+  app.get('/teapot', () => {
+    throw Object.assign(new Error('Teapot'), { status: 418 });
+  });
+
+  const boom = await app.fetch(new Request('http://localhost/boom'));
+  expect(boom.status).toBe(500);
+  expect(boom.headers.get('x-request-id')).toBe('abc');
+  expect(await boom.json()).toEqual({ error: 'Boom', status: 500 });
+
+  // Without a hook result the default 500 response is sent
+  const teapot = await app.fetch(new Request('http://localhost/teapot'));
+  expect(teapot.status).toBe(500);
+  expect(errors).toHaveLength(2);
+});
+
+test('hooks - route hooks run after app and router hooks', async () => {
+  const app = bunserve();
+  const admin = router();
+  const calls: string[] = [];
+
+  app.before_handle(() => {
+    calls.push('app');
+  });
+  admin.before_handle(() => {
+    calls.push('admin');
+  });
+  admin.get('/stats', () => 'stats', {
+    before_handle: [
+      () => {
+        calls.push('route');
+      }
+    ]
+  });
+  app.use('/admin', admin);
+  app.get('/public', () => 'public');
+
+  await app.fetch(new Request('http://localhost/admin/stats'));
+  expect(calls).toEqual(['app', 'admin', 'route']);
+
+  calls.length = 0;
+  await app.fetch(new Request('http://localhost/public'));
+  expect(calls).toEqual(['app']);
+});
+
+test('hooks - before_each option runs for every request', async () => {
+  const paths: string[] = [];
+  const app = bunserve({
+    before_each: (request) => {
+      paths.push(new URL(request.url).pathname);
+    }
+  });
+
+  app.get('/a', () => 'a');
+  await app.fetch(new Request('http://localhost/a'));
+  await app.fetch(new Request('http://localhost/missing'));
+
+  expect(paths).toEqual(['/a', '/missing']);
+});
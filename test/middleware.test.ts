@@ -1,5 +1,14 @@
 import { expect, test } from 'bun:test';
-import { bunserve, cors, error_handler, logger } from '../src/index';
+import {
+  bunserve,
+  cors,
+  create_logger,
+  error_handler,
+  HttpError,
+  logger,
+  router,
+  t
+} from '../src/index';
 
 test('error handler middleware - HttpError', async () => {
   const app = bunserve();
@@ -170,6 +179,213 @@ test('logger middleware - skip paths', async () => {
   expect(logs.length).toBe(1);
 });
 
+test('logger middleware - json entries through context.log', async () => {
+  const lines: string[] = [];
+  const app = bunserve({
+    logging: { level: 'info', write: (line) => lines.push(line) }
+  });
+
+  app.use(
+    logger({ format: 'json', include_headers: true, include_body: true })
+  );
+
+  app.post('/login', ({ log }) => {
+    log.debug('not written below the level');
+    log.child({ step: 'verify' }).info({ attempts: 1 }, 'checking password');
+    return { ok: true };
+  });
+
+  await app.fetch(
+    new Request('http://localhost/login', {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer secret',
+        'Content-Type': 'application/json',
+        'User-Agent': 'test-agent'
+      },
+      body: JSON.stringify({ email: 'a@example.com', password: 'hunter2' })
+    })
+  );
+
+  expect(lines).toHaveLength(2);
+  const [handler_entry, access_entry] = lines.map((line) => JSON.parse(line));
+  expect(handler_entry).toMatchObject({
+    level: 'info',
+    msg: 'checking password',
+    method: 'POST',
+    path: '/login',
+    step: 'verify',
+    attempts: 1
+  });
+  expect(access_entry).toMatchObject({
+    level: 'info',
+    msg: 'request completed',
+    request_id: handler_entry.request_id,
+    status: 200,
+    user_agent: 'test-agent',
+    headers: { authorization: '[redacted]' },
+    body: { email: 'a@example.com', password: '[redacted]' }
+  });
+  expect(typeof access_entry.duration_ms).toBe('number');
+});
+
+test('create_logger - levels, child bindings and redaction paths', () => {
+  const lines: string[] = [];
+  const log = create_logger({
+    level: 'warn',
+    redact: ['card.number', 'users.*.token'],
+    fields: { service: 'billing' },
+    write: (line) => lines.push(line)
+  });
+
+  log.info('skipped');
+  expect(log.enabled('info')).toBe(false);
+
+  log.child({ job: 'charge' }).error(
+    {
+      card: { number: '4242', brand: 'visa' },
+      users: [{ token: 'abc', name: 'Ada' }],
+      password: 'kept without a matching rule',
+      error: new Error('declined')
+    },
+    'charge failed'
+  );
+
+  expect(lines).toHaveLength(1);
+  const entry = JSON.parse(lines[0] as string);
+  expect(entry).toMatchObject({
+    level: 'error',
+    msg: 'charge failed',
+    service: 'billing',
+    job: 'charge',
+    card: { number: '[redacted]', brand: 'visa' },
+    users: [{ token: '[redacted]', name: 'Ada' }],
+    password: 'kept without a matching rule',
+    error: { name: 'Error', message: 'declined' }
+  });
+});
+
+test('logger middleware - Apache combined and common formats', async () => {
+  const app = bunserve();
+  const logs: string[] = [];
+
+  app.use(logger({ format: 'combined', log: (message) => logs.push(message) }));
+  app.get('/users', () => 'hello');
+
+  await app.fetch(
+    new Request('http://localhost/users?page=2', {
+      headers: {
+        Authorization: `Basic ${btoa('alice:secret')}`,
+        Referer: 'https://example.com/',
+        'User-Agent': 'test "agent"'
+      }
+    })
+  );
+
+  expect(logs[0]).toMatch(
+    /^- - alice \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} \+0000\] "GET \/users\?page=2 HTTP\/1\.1" 200 5 "https:\/\/example\.com\/" "test \\"agent\\""$/
+  );
+});
+
+test('logger middleware - status and size come from the final response', async () => {
+  const app = bunserve();
+  const logs: string[] = [];
+
+  app.use(
+    logger({
+      format: ':method :url :status :res[content-length]',
+      log: (message) => logs.push(message)
+    })
+  );
+  app.post('/items', () => new Response('created', { status: 201 }));
+  app.get('/missing', () => {
+    throw HttpError.not_found();
+  });
+  app.get('/empty', ({ set }) => {
+    set.status = 204;
+    return null;
+  });
+
+  await app.fetch(new Request('http://localhost/items', { method: 'POST' }));
+  await app.fetch(new Request('http://localhost/missing'));
+  await app.fetch(new Request('http://localhost/empty'));
+
+  expect(logs).toEqual([
+    'POST /items 201 -',
+    expect.stringMatching(/^GET \/missing 404 \d+$/),
+    'GET /empty 204 -'
+  ]);
+});
+
+test('logger middleware - logs validation failures and rejected upgrades', async () => {
+  const app = bunserve();
+  const logs: string[] = [];
+
+  app.use(
+    logger({
+      format: ':method :url :status',
+      log: (message) => logs.push(message)
+    })
+  );
+  app.post('/items', ({ body }) => body, {
+    body: t.object({ name: t.string() })
+  });
+  app.ws('/socket', {});
+  app.ws(
+    '/private',
+    [
+      async ({ set }) => {
+        set.status = 401;
+        return 'Unauthorized';
+      }
+    ],
+    {}
+  );
+
+  await app.fetch(
+    new Request('http://localhost/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    })
+  );
+  await app.fetch(new Request('http://localhost/socket'));
+  await app.fetch(
+    new Request('http://localhost/private', {
+      headers: { Connection: 'Upgrade', Upgrade: 'websocket' }
+    })
+  );
+
+  expect(logs).toEqual([
+    'POST /items 422',
+    'GET /socket 426',
+    'GET /private 401'
+  ]);
+});
+
+test('logger middleware - custom tokens', async () => {
+  const logs: string[] = [];
+  const app = bunserve();
+
+  app.use(
+    logger({
+      format: ':tenant :method :req[x-trace] :response-time[0]ms',
+      tokens: { tenant: ({ context }) => context.headers['x-tenant'] },
+      log: (message) => logs.push(message)
+    })
+  );
+  app.get('/', () => 'ok');
+
+  await app.fetch(
+    new Request('http://localhost/', { headers: { 'X-Tenant': 'acme' } })
+  );
+  expect(logs[0]).toMatch(/^acme GET - \d+ms$/);
+
+  expect(() => logger({ format: ':method :unknown' })).toThrow(
+    'Unknown log format token ":unknown"'
+  );
+});
+
 // TODO: Re-enable once create_health_check is implemented
 // test('health check - simple', async () => {
 //   const app = bunserve();
@@ -234,3 +450,158 @@ test('combined middleware', async () => {
   const data = await response2.json();
   expect(data.error).toBe('Invalid request');
 });
+
+test('sub-router middleware - scoped to the mount prefix', async () => {
+  const app = bunserve();
+  const admin = router();
+
+  admin.use(async ({ set }, _next) => {
+    set.status = 401;
+    return { error: 'Unauthorized' };
+  });
+  admin.get('/stats', () => ({ visits: 10 }));
+
+  app.use('/admin', admin);
+  app.get('/public', () => ({ ok: true }));
+
+  const public_response = await app.fetch(
+    new Request('http://localhost/public')
+  );
+  expect(public_response.status).toBe(200);
+
+  const admin_response = await app.fetch(
+    new Request('http://localhost/admin/stats')
+  );
+  expect(admin_response.status).toBe(401);
+});
+
+test('sub-router middleware - nested mounts keep middleware order', async () => {
+  const app = bunserve();
+  const api = router();
+  const v1 = router();
+  const order: string[] = [];
+
+  const track = (name: string) => async (_context: any, next: any) => {
+    order.push(name);
+    await next();
+  };
+
+  app.use(track('app'));
+  api.use(track('api'));
+  v1.use(track('v1'));
+  v1.get('/items', [track('route')], () => {
+    order.push('handler');
+    return [];
+  });
+
+  api.use('/v1', [track('mount v1')], v1);
+  app.use('/api', [track('mount api')], api);
+
+  const response = await app.fetch(
+    new Request('http://localhost/api/v1/items')
+  );
+  expect(response.status).toBe(200);
+  expect(order).toEqual([
+    'app',
+    'mount api',
+    'api',
+    'mount v1',
+    'v1',
+    'route',
+    'handler'
+  ]);
+});
+
+test('sub-router middleware - mount-time middleware can reject requests', async () => {
+  const app = bunserve();
+  const admin = router();
+
+  const require_admin = async ({ request, set }: any, next: any) => {
+    if (request.headers.get('x-role') !== 'admin') {
+      set.status = 403;
+      return { error: 'Forbidden' };
+    }
+    await next();
+  };
+
+  admin.get('/users', () => ({ users: [] }));
+  app.use('/admin', [require_admin], admin);
+
+  const denied = await app.fetch(new Request('http://localhost/admin/users'));
+  expect(denied.status).toBe(403);
+
+  const allowed = await app.fetch(
+    new Request('http://localhost/admin/users', {
+      headers: { 'x-role': 'admin' }
+    })
+  );
+  expect(await allowed.json()).toEqual({ users: [] });
+});
+
+test('derive - adds typed properties to later middleware and handlers', async () => {
+  const app = bunserve()
+    .decorate('db', { users: { '1': 'Ada' } as Record<string, string> })
+    .derive(({ headers }) => ({ user_id: headers['x-user'] ?? null }))
+    .derive(async ({ db, user_id }) => ({
+      user: user_id ? (db.users[user_id] ?? null) : null
+    }))
+    .get('/me', ({ user, user_id }) => ({ user, user_id }));
+
+  const response = await app.fetch(
+    new Request('http://localhost/me', { headers: { 'x-user': '1' } })
+  );
+  expect(await response.json()).toEqual({ user: 'Ada', user_id: '1' });
+
+  const anonymous = await app.fetch(new Request('http://localhost/me'));
+  expect(await anonymous.json()).toEqual({ user: null, user_id: null });
+});
+
+test('derive - runs in order with use() and is scoped to mounted routers', async () => {
+  const app = bunserve();
+  const admin = router().derive(() => ({ role: 'admin' }));
+  const seen: unknown[] = [];
+
+  app.use(async (context, next) => {
+    seen.push((context as any).request_count);
+    await next();
+  });
+  app.derive(() => ({ request_count: 1 }));
+
+  // Parent derived properties are present at runtime but not typed here
+  admin.get('/role', (context) => ({
+    role: context.role,
+    request_count: (context as any).request_count
+  }));
+  app.use('/admin', admin);
+  app.get('/role', (context) => ({ role: (context as any).role ?? null }));
+
+  const mounted = await app.fetch(new Request('http://localhost/admin/role'));
+  expect(await mounted.json()).toEqual({ role: 'admin', request_count: 1 });
+
+  const root = await app.fetch(new Request('http://localhost/role'));
+  expect(await root.json()).toEqual({ role: null });
+  expect(seen).toEqual([undefined, undefined]);
+});
+
+test('state - is a fresh object per request shared with handlers', async () => {
+  const app = bunserve();
+
+  app.use(async ({ state }, next) => {
+    state.visits = ((state.visits as number) ?? 0) + 1;
+    await next();
+  });
+  app.get('/state', ({ state }) => state);
+
+  for (let i = 0; i < 2; i++) {
+    const response = await app.fetch(new Request('http://localhost/state'));
+    expect(await response.json()).toEqual({ visits: 1 });
+  }
+});
+
+test('decorate - reserved context properties are rejected', () => {
+  const app = bunserve();
+
+  expect(() => app.decorate('params', {})).toThrow(
+    'Cannot replace reserved context property "params"'
+  );
+});
@@ -0,0 +1,193 @@
+import { expect, test } from 'bun:test';
+import { bunserve, router, t, to_openapi_path } from '../src';
+
+test('to_openapi_path translates params and wildcards', () => {
+  expect(to_openapi_path('/users/:id/posts/:post_id')).toEqual({
+    path: '/users/{id}/posts/{post_id}',
+    params: ['id', 'post_id']
+  });
+  expect(to_openapi_path('/files/*')).toEqual({
+    path: '/files/{wildcard}',
+    params: ['wildcard']
+  });
+});
+
+test('openapi document includes routes, schemas and metadata', () => {
+  const app = bunserve();
+
+  app.get('/users/:id', ({ params }) => ({ id: params.id, name: 'Ada' }), {
+    summary: 'Get a user',
+    tags: ['users'],
+    security: [{ bearer_auth: [] }],
+    params: t.object({ id: t.integer() }),
+    query: t.object({ expand: t.optional(t.boolean()) }),
+    response: {
+      200: t.object({ id: t.number(), name: t.string() })
+    }
+  });
+
+  app.post('/users', ({ body }) => body, {
+    body: t.object({ email: t.string({ format: 'email' }) })
+  });
+
+  const doc = app.openapi({
+    info: { title: 'Users API', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com' }]
+  });
+
+  expect(doc.openapi).toBe('3.1.0');
+  expect(doc.servers).toEqual([{ url: 'https://api.example.com' }]);
+
+  const get_user = doc.paths['/users/{id}']?.get;
+  expect(get_user?.summary).toBe('Get a user');
+  expect(get_user?.tags).toEqual(['users']);
+  expect(get_user?.security).toEqual([{ bearer_auth: [] }]);
+  expect(get_user?.parameters).toEqual([
+    { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+    {
+      name: 'expand',
+      in: 'query',
+      required: false,
+      schema: { type: 'boolean' }
+    }
+  ]);
+  expect(
+    get_user?.responses['200']?.content?.['application/json']?.schema
+  ).toEqual({
+    type: 'object',
+    properties: { id: { type: 'number' }, name: { type: 'string' } },
+    required: ['id', 'name']
+  });
+
+  const create_user = doc.paths['/users']?.post;
+  expect(create_user?.requestBody?.content['application/json']?.schema).toEqual(
+    {
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' } },
+      required: ['email']
+    }
+  );
+});
+
+test('openapi document includes mounted sub-routers', () => {
+  const app = bunserve();
+  const api = router();
+
+  api.get('/posts/:slug', ({ params }) => params.slug);
+  app.use('/api', api);
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(doc.paths['/api/posts/{slug}']?.get?.parameters?.[0]?.name).toBe(
+    'slug'
+  );
+});
+
+test('openapi documents inline param constraints', () => {
+  const app = bunserve();
+
+  app.get('/users/:id<int>', ({ params }) => ({ id: params.id }));
+  app.get('/orders/:id<uuid>', ({ params }) => ({ id: params.id }));
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(doc.paths['/users/{id}']?.get?.parameters?.[0]?.schema).toEqual({
+    type: 'integer'
+  });
+  expect(doc.paths['/orders/{id}']?.get?.parameters?.[0]?.schema).toEqual({
+    type: 'string',
+    format: 'uuid'
+  });
+});
+
+test('openapi documents optional params and named wildcards', () => {
+  const app = bunserve();
+
+  app.get('/posts/:id?', () => []);
+  app.get('/files/*path', () => 'file');
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(Object.keys(doc.paths)).toEqual([
+    '/posts',
+    '/posts/{id}',
+    '/files/{path}'
+  ]);
+  expect(to_openapi_path('/files/*path')).toEqual({
+    path: '/files/{path}',
+    params: ['path']
+  });
+});
+
+test('operation IDs stay unique across path variants and ALL methods', () => {
+  const app = bunserve();
+
+  app.get('/posts/:id?', () => [], { operation_id: 'get_posts' });
+  app.all('/ping', () => 'pong', { operation_id: 'ping' });
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(doc.paths['/posts/{id}']?.get?.operationId).toBe('get_posts');
+  expect(doc.paths['/posts']?.get?.operationId).toBe('get_posts_1');
+  expect(doc.paths['/ping']?.get?.operationId).toBe('ping_get');
+  expect(doc.paths['/ping']?.head?.operationId).toBe('ping_head');
+
+  const ids = Object.values(doc.paths).flatMap((operations) =>
+    Object.values(operations).map((operation) => operation.operationId)
+  );
+  expect(new Set(ids).size).toBe(ids.length);
+});
+
+test('explicit methods are not overwritten by ALL routes', () => {
+  const app = bunserve();
+
+  app.get('/items', () => [], { summary: 'List items' });
+  app.all('/items', () => 'any', { summary: 'Any method' });
+  app.all('/other', () => 'any', { summary: 'Other' });
+  app.post('/other', () => 'created', { summary: 'Create other' });
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(doc.paths['/items']?.get?.summary).toBe('List items');
+  expect(doc.paths['/items']?.head).toBeUndefined();
+  expect(doc.paths['/items']?.post?.summary).toBe('Any method');
+  expect(doc.paths['/other']?.post?.summary).toBe('Create other');
+  expect(doc.paths['/other']?.get?.summary).toBe('Other');
+});
+
+test('openapi serves JSON document and HTML viewer', async () => {
+  const app = bunserve();
+
+  app.openapi({
+    info: { title: 'Served API', version: '2.0.0' },
+    path: '/openapi.json',
+    viewer_path: '/docs'
+  });
+
+  // Registered after openapi() and still documented
+  app.get('/health', () => ({ ok: true }));
+
+  const json_response = await app.fetch(
+    new Request('http://localhost/openapi.json')
+  );
+  expect(json_response.status).toBe(200);
+  const doc = await json_response.json();
+  expect(Object.keys(doc.paths)).toEqual(['/health']);
+
+  const html_response = await app.fetch(new Request('http://localhost/docs'));
+  expect(html_response.headers.get('Content-Type')).toBe('text/html');
+  const html = await html_response.text();
+  expect(html).toContain('<title>Served API</title>');
+  expect(html).toContain('"/openapi.json"');
+});
+
+test('hidden routes are excluded from the document', () => {
+  const app = bunserve();
+
+  app.get('/internal', () => 'secret', { hide: true });
+  app.get('/public', () => 'hello');
+
+  const doc = app.openapi({ info: { title: 'API', version: '1' } });
+
+  expect(Object.keys(doc.paths)).toEqual(['/public']);
+});
@@ -0,0 +1,127 @@
+import { expect, test } from 'bun:test';
+import { bunserve, plugin } from '../src/index';
+
+test('plugin - routes are mounted under the prefix with options', async () => {
+  const health = plugin({
+    name: 'health',
+    setup: (app, options: { version: string }) =>
+      app.get('/health', () => ({ status: 'ok', version: options.version }))
+  });
+
+  const app = bunserve().register(health, {
+    version: '1.2.0',
+    prefix: '/internal'
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/internal/health')
+  );
+  expect(await response.json()).toEqual({ status: 'ok', version: '1.2.0' });
+  expect(app.routes().map((route) => route.path)).toEqual(['/internal/health']);
+});
+
+test('plugin - middleware and hooks stay scoped unless encapsulate is false', async () => {
+  const scoped = plugin({
+    name: 'scoped',
+    setup: (app) =>
+      app
+        .on_response((response) => {
+          response.headers.set('x-scoped', 'true');
+        })
+        .get('/scoped', () => 'scoped')
+  });
+  const shared = plugin({
+    name: 'shared',
+    encapsulate: false,
+    setup: (app) => app.decorate('version', '2.0.0')
+  });
+
+  const app = bunserve().register(scoped).register(shared);
+  app.get('/version', ({ version }) => version);
+
+  const inside = await app.fetch(new Request('http://localhost/scoped'));
+  expect(inside.headers.get('x-scoped')).toBe('true');
+
+  const outside = await app.fetch(new Request('http://localhost/version'));
+  expect(outside.headers.get('x-scoped')).toBeNull();
+  expect(await outside.text()).toBe('2.0.0');
+});
+
+test('plugin - dependencies must be registered first', () => {
+  const database = plugin({ name: 'database', setup: () => {} });
+  const users = plugin({
+    name: 'users',
+    dependencies: ['database'],
+    setup: () => {}
+  });
+
+  expect(() => bunserve().register(users)).toThrow(
+    'Plugin "users" requires "database" to be registered first'
+  );
+  expect(() => bunserve().register(database).register(users)).not.toThrow();
+});
+
+test('plugin - registering the same plugin twice is ignored', () => {
+  let installs = 0;
+  const counter = plugin({
+    name: 'counter',
+    setup: (app) => {
+      installs++;
+      return app.get('/count', () => installs);
+    }
+  });
+
+  const app = bunserve().register(counter).register(counter);
+  expect(installs).toBe(1);
+  expect(app.routes()).toHaveLength(1);
+});
+
+test('plugin - async setups install in registration order before serving', async () => {
+  const order: string[] = [];
+  const slow = plugin({
+    name: 'slow',
+    setup: async (app) => {
+      await Bun.sleep(10);
+      order.push('slow');
+      return app.get('/slow', () => 'slow');
+    }
+  });
+  const fast = plugin({
+    name: 'fast',
+    setup: (app) => {
+      order.push('fast');
+      return app.get('/fast', () => 'fast');
+    }
+  });
+
+  const app = bunserve().register(slow).register(fast);
+  expect(order).toEqual([]);
+
+  // fetch waits for installation to finish
+  const response = await app.fetch(new Request('http://localhost/slow'));
+  expect(await response.text()).toBe('slow');
+  expect(order).toEqual(['slow', 'fast']);
+
+  await app.ready();
+  expect(app.routes().map((route) => route.path)).toEqual(['/slow', '/fast']);
+});
+
+test('plugin - shutdown hooks run in reverse order on close', async () => {
+  const calls: string[] = [];
+  const pool = plugin({
+    name: 'pool',
+    setup: (app) => {
+      app.on_shutdown(() => {
+        calls.push('pool');
+      });
+    }
+  });
+
+  const app = bunserve().register(pool);
+  app.on_shutdown(async () => {
+    calls.push('app');
+  });
+
+  await app.close();
+  expect(calls).toEqual(['app', 'pool']);
+});
@@ -219,3 +219,76 @@ test('Response with 204 No Content', async () => {
 
   expect(response.status).toBe(204);
 });
+
+test('Raw Response is returned unchanged with set.headers merged', async () => {
+  const app = bunserve();
+
+  app.get('/raw', ({ set }) => {
+    set.headers['X-Request-Id'] = 'abc';
+    set.headers['Content-Type'] = 'application/json';
+    return new Response('<p>hi</p>', {
+      status: 201,
+      headers: { 'Content-Type': 'text/html' }
+    });
+  });
+
+  const response = await app.fetch(new Request('http://localhost/raw'));
+
+  expect(response.status).toBe(201);
+  expect(response.headers.get('Content-Type')).toBe('text/html');
+  expect(response.headers.get('X-Request-Id')).toBe('abc');
+  expect(await response.text()).toBe('<p>hi</p>');
+});
+
+test('Blob and BunFile bodies use their type and set.status', async () => {
+  const app = bunserve();
+
+  app.get('/blob', ({ set }) => {
+    set.status = 202;
+    return new Blob(['a,b'], { type: 'text/csv' });
+  });
+  app.get('/file', () => Bun.file(import.meta.path));
+
+  const blob = await app.fetch(new Request('http://localhost/blob'));
+  expect(blob.status).toBe(202);
+  expect(blob.headers.get('Content-Type')).toStartWith('text/csv');
+  expect(await blob.text()).toBe('a,b');
+
+  const file = await app.fetch(new Request('http://localhost/file'));
+  expect(file.status).toBe(200);
+  expect(await file.text()).toContain('BunFile bodies');
+});
+
+test('ArrayBuffer, Uint8Array and ReadableStream bodies pass through', async () => {
+  const app = bunserve();
+
+  app.get('/buffer', () => new TextEncoder().encode('bytes').buffer);
+  app.get('/bytes', ({ set }) => {
+    set.content = 'png';
+    return new Uint8Array([137, 80, 78, 71]);
+  });
+  app.get('/stream', ({ set }) => {
+    set.headers['Content-Type'] = 'text/plain';
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('chunk-1,'));
+        controller.enqueue(new TextEncoder().encode('chunk-2'));
+        controller.close();
+      }
+    });
+  });
+
+  const buffer = await app.fetch(new Request('http://localhost/buffer'));
+  expect(buffer.headers.get('Content-Type')).toBe('application/octet-stream');
+  expect(await buffer.text()).toBe('bytes');
+
+  const bytes = await app.fetch(new Request('http://localhost/bytes'));
+  expect(bytes.headers.get('Content-Type')).toBe('image/png');
+  expect(new Uint8Array(await bytes.arrayBuffer())).toEqual(
+    new Uint8Array([137, 80, 78, 71])
+  );
+
+  const stream = await app.fetch(new Request('http://localhost/stream'));
+  expect(stream.headers.get('Content-Type')).toBe('text/plain');
+  expect(await stream.text()).toBe('chunk-1,chunk-2');
+});
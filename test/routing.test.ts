@@ -0,0 +1,594 @@
+import { expect, test } from 'bun:test';
+import { bunserve, cors, router } from '../src';
+import { create_route_matcher } from '../src/dispatcher';
+
+test('fetch - exact beats param beats wildcard regardless of order', async () => {
+  const app = bunserve();
+
+  app.get('/users/*', () => 'wildcard');
+  app.get('/users/:id', ({ params }) => `param ${params.id}`);
+  app.get('/users/me', () => 'exact');
+
+  const exact = await app.fetch(new Request('http://localhost/users/me'));
+  expect(await exact.text()).toBe('exact');
+
+  const param = await app.fetch(new Request('http://localhost/users/42'));
+  expect(await param.text()).toBe('param 42');
+
+  const wildcard = await app.fetch(
+    new Request('http://localhost/users/42/posts')
+  );
+  expect(await wildcard.text()).toBe('wildcard');
+});
+
+test('fetch - route without the method falls through to the next match', async () => {
+  const app = bunserve();
+
+  app.get('/items/special', () => 'special get');
+  app.delete('/items/special', () => 'special delete');
+  app.post('/items/:id', ({ params }) => `create ${params.id}`);
+  app.put('/items/:id', ({ params }) => `replace ${params.id}`);
+
+  const response = await app.fetch(
+    new Request('http://localhost/items/special', { method: 'POST' })
+  );
+  expect(await response.text()).toBe('create special');
+});
+
+test('fetch - unmatched paths respond 404 like the live server', async () => {
+  const app = bunserve();
+
+  app.get('/exists', () => 'ok');
+
+  const response = await app.fetch(new Request('http://localhost/missing'));
+  expect(response.status).toBe(404);
+  expect(await response.text()).toBe('Not Found');
+});
+
+test('fetch - params are URL-decoded', async () => {
+  const app = bunserve();
+
+  app.get('/tags/:tag', ({ params }) => params.tag);
+
+  const response = await app.fetch(
+    new Request('http://localhost/tags/hello%20world')
+  );
+  expect(await response.text()).toBe('hello world');
+});
+
+test('fetch - cookies are read and written as Set-Cookie headers', async () => {
+  const app = bunserve();
+
+  app.get('/visit', ({ cookies }) => {
+    const visits = Number(cookies.get('visits') ?? 0) + 1;
+    cookies.set('visits', String(visits), { httpOnly: true, path: '/' });
+    return { visits };
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/visit', {
+      headers: { Cookie: 'visits=2' }
+    })
+  );
+
+  expect(await response.json()).toEqual({ visits: 3 });
+  const set_cookie = response.headers.get('Set-Cookie');
+  expect(set_cookie).toContain('visits=3');
+  expect(set_cookie).toContain('HttpOnly');
+});
+
+test('fetch - HEAD is answered by the GET handler without a body', async () => {
+  const app = bunserve();
+
+  app.get('/report', ({ set }) => {
+    set.headers['X-Rows'] = '10';
+    return 'row data';
+  });
+  app.post('/report', () => 'created');
+
+  const response = await app.fetch(
+    new Request('http://localhost/report', { method: 'HEAD' })
+  );
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get('X-Rows')).toBe('10');
+  expect(await response.text()).toBe('');
+});
+
+test('fetch - HEAD prefers the GET handler over an ALL handler', async () => {
+  const app = bunserve();
+
+  app.get('/report', ({ set }) => {
+    set.headers['X-Handler'] = 'get';
+    return 'row data';
+  });
+  app.all('/report', ({ set }) => {
+    set.headers['X-Handler'] = 'all';
+    return 'any';
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/report', { method: 'HEAD' })
+  );
+
+  expect(response.headers.get('X-Handler')).toBe('get');
+});
+
+test('fetch - routes registered after the first request are matched', async () => {
+  const app = bunserve();
+
+  app.get('/first', () => 'first');
+  expect(
+    await (await app.fetch(new Request('http://localhost/first'))).text()
+  ).toBe('first');
+
+  app.get('/second', () => 'second');
+  expect(
+    await (await app.fetch(new Request('http://localhost/second'))).text()
+  ).toBe('second');
+});
+
+test('fetch - known path with another method responds 405 with Allow', async () => {
+  const app = bunserve();
+
+  app.get('/orders', () => []);
+  app.post('/orders', () => ({ created: true }));
+
+  const response = await app.fetch(
+    new Request('http://localhost/orders', { method: 'DELETE' })
+  );
+
+  expect(response.status).toBe(405);
+  expect(response.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+  expect(await response.text()).toBe('Method Not Allowed');
+});
+
+test('fetch - single-method paths do not answer other methods', async () => {
+  const app = bunserve();
+
+  app.post('/login', () => ({ ok: true }));
+
+  const response = await app.fetch(new Request('http://localhost/login'));
+  expect(response.status).toBe(405);
+  expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+});
+
+test('fetch - OPTIONS is answered automatically with Allow', async () => {
+  const app = bunserve();
+
+  app.get('/items/:id', () => ({}));
+  app.patch('/items/:id', () => ({}));
+
+  const response = await app.fetch(
+    new Request('http://localhost/items/1', { method: 'OPTIONS' })
+  );
+
+  expect(response.status).toBe(204);
+  expect(response.headers.get('Allow')).toBe('GET, HEAD, PATCH, OPTIONS');
+});
+
+test('fetch - automatic OPTIONS runs global middleware for CORS preflight', async () => {
+  const app = bunserve();
+
+  app.use(cors({ origin: 'https://example.com' }));
+  app.put('/settings', () => ({ saved: true }));
+
+  const response = await app.fetch(
+    new Request('http://localhost/settings', {
+      method: 'OPTIONS',
+      headers: {
+        Origin: 'https://example.com',
+        'Access-Control-Request-Method': 'PUT'
+      }
+    })
+  );
+
+  expect(response.status).toBe(204);
+  expect(response.headers.get('Access-Control-Allow-Origin')).toBe(
+    'https://example.com'
+  );
+});
+
+test('fetch - explicit handlers take precedence over all()', async () => {
+  const app = bunserve();
+
+  app.all('/resource', () => 'any');
+  app.get('/resource', () => 'get');
+
+  const get = await app.fetch(new Request('http://localhost/resource'));
+  expect(await get.text()).toBe('get');
+
+  const put = await app.fetch(
+    new Request('http://localhost/resource', { method: 'PUT' })
+  );
+  expect(await put.text()).toBe('any');
+});
+
+test('fetch - unmatched paths run global middleware', async () => {
+  const app = bunserve();
+  const seen: string[] = [];
+
+  app.use(async ({ request }, next) => {
+    seen.push(new URL(request.url).pathname);
+    await next();
+  });
+  app.use(cors({ origin: 'https://example.com' }));
+  app.get('/exists', () => 'ok');
+
+  const response = await app.fetch(new Request('http://localhost/missing'));
+
+  expect(response.status).toBe(404);
+  expect(response.headers.get('Access-Control-Allow-Origin')).toBe(
+    'https://example.com'
+  );
+  expect(seen).toEqual(['/missing']);
+});
+
+test('fetch - not_found handler builds the 404 response', async () => {
+  const app = bunserve();
+
+  app.not_found(({ request }) => ({
+    error: 'Not Found',
+    path: new URL(request.url).pathname
+  }));
+
+  const response = await app.fetch(new Request('http://localhost/nope'));
+
+  expect(response.status).toBe(404);
+  expect(await response.json()).toEqual({ error: 'Not Found', path: '/nope' });
+});
+
+test('fetch - not_found handler can change the status', async () => {
+  const app = bunserve();
+
+  app.not_found(({ set }) => {
+    set.status = 410;
+    return 'Gone';
+  });
+
+  const response = await app.fetch(new Request('http://localhost/old'));
+  expect(response.status).toBe(410);
+  expect(await response.text()).toBe('Gone');
+});
+
+test('group - registers routes under a prefix with scoped middleware', async () => {
+  const app = bunserve();
+  const seen: string[] = [];
+
+  app.group(
+    '/v1',
+    [
+      async ({ request }, next) => {
+        seen.push(new URL(request.url).pathname);
+        await next();
+      }
+    ],
+    (v1) => {
+      v1.get('/users', () => ['ada']);
+      v1.group('/admin', (admin) => {
+        admin.get('/stats', () => ({ visits: 1 }));
+      });
+    }
+  );
+  app.get('/health', () => 'ok');
+
+  const users = await app.fetch(new Request('http://localhost/v1/users'));
+  expect(await users.json()).toEqual(['ada']);
+
+  const stats = await app.fetch(new Request('http://localhost/v1/admin/stats'));
+  expect(await stats.json()).toEqual({ visits: 1 });
+
+  await app.fetch(new Request('http://localhost/health'));
+  expect(seen).toEqual(['/v1/users', '/v1/admin/stats']);
+});
+
+test('route - chains methods on one path with typed params', async () => {
+  const app = bunserve();
+
+  app
+    .route('/users/:id')
+    .get(({ params }) => ({ read: params.id }))
+    .put(({ params }) => ({ replaced: params.id }))
+    .delete(({ params, set }) => {
+      set.status = 202;
+      return { deleted: params.id };
+    });
+
+  const read = await app.fetch(new Request('http://localhost/users/7'));
+  expect(await read.json()).toEqual({ read: '7' });
+
+  const replaced = await app.fetch(
+    new Request('http://localhost/users/7', { method: 'PUT' })
+  );
+  expect(await replaced.json()).toEqual({ replaced: '7' });
+
+  const deleted = await app.fetch(
+    new Request('http://localhost/users/7', { method: 'DELETE' })
+  );
+  expect(deleted.status).toBe(202);
+
+  const patch = await app.fetch(
+    new Request('http://localhost/users/7', { method: 'PATCH' })
+  );
+  expect(patch.status).toBe(405);
+  expect(patch.headers.get('Allow')).toBe('GET, HEAD, PUT, DELETE, OPTIONS');
+});
+
+test('constraints - int params are coerced and others fall through to 404', async () => {
+  const app = bunserve();
+
+  app.get('/users/:id<int>', ({ params }) => {
+    const id: number = params.id;
+    return { id, next: id + 1 };
+  });
+
+  const response = await app.fetch(new Request('http://localhost/users/41'));
+  expect(await response.json()).toEqual({ id: 41, next: 42 });
+
+  const mismatch = await app.fetch(new Request('http://localhost/users/abc'));
+  expect(mismatch.status).toBe(404);
+});
+
+test('constraints - routes sharing a pattern are tried in order', async () => {
+  const app = bunserve();
+
+  app.get('/posts/:id<int>', ({ params }) => ({ by: 'id', id: params.id }));
+  app.get('/posts/:slug<slug>', ({ params }) => ({
+    by: 'slug',
+    slug: params.slug
+  }));
+  app.get('/posts/:anything', ({ params }) => ({
+    by: 'fallback',
+    value: params.anything
+  }));
+
+  const by_id = await app.fetch(new Request('http://localhost/posts/7'));
+  expect(await by_id.json()).toEqual({ by: 'id', id: 7 });
+
+  const by_slug = await app.fetch(
+    new Request('http://localhost/posts/hello-world')
+  );
+  expect(await by_slug.json()).toEqual({ by: 'slug', slug: 'hello-world' });
+
+  const other = await app.fetch(new Request('http://localhost/posts/Hello_'));
+  expect(await other.json()).toEqual({ by: 'fallback', value: 'Hello_' });
+});
+
+test('constraints - mismatches use the not_found handler', async () => {
+  const app = bunserve();
+
+  app.not_found(() => ({ error: 'Not Found' }));
+  app.get('/orders/:id<uuid>', ({ params }) => ({ id: params.id }));
+
+  const found = await app.fetch(
+    new Request('http://localhost/orders/6f1c2a4e-8a4b-4c1d-9e2f-0123456789ab')
+  );
+  expect(found.status).toBe(200);
+
+  const missing = await app.fetch(new Request('http://localhost/orders/42'));
+  expect(missing.status).toBe(404);
+  expect(await missing.json()).toEqual({ error: 'Not Found' });
+});
+
+test('constraints - unknown constraints are rejected at registration', () => {
+  const app = bunserve();
+
+  expect(() => app.get('/users/:id<integer>', () => 'never')).toThrow(
+    'Unknown constraint "integer"'
+  );
+});
+
+test('optional params - match with and without the segment', async () => {
+  const app = bunserve();
+
+  app.get('/archive/:year<int>?', ({ params }) => {
+    const year: number | undefined = params.year;
+    return { year: year ?? 'all' };
+  });
+
+  const all = await app.fetch(new Request('http://localhost/archive'));
+  expect(await all.json()).toEqual({ year: 'all' });
+
+  const year = await app.fetch(new Request('http://localhost/archive/2024'));
+  expect(await year.json()).toEqual({ year: 2024 });
+});
+
+test('named wildcards - expose the rest of the path under their name', async () => {
+  const app = bunserve();
+
+  app.get('/files/:bucket/*path', ({ params }) => {
+    const path: string = params.path;
+    return { bucket: params.bucket, path };
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/files/media/images/cat.png')
+  );
+  expect(await response.json()).toEqual({
+    bucket: 'media',
+    path: 'images/cat.png'
+  });
+});
+
+test('wildcards - a running server exposes the same params as fetch', async () => {
+  const app = bunserve({ port: 3492 });
+
+  app.get('/files/:bucket/*path', ({ params }) => params);
+  app.get('/assets/*', ({ params }) => params);
+
+  await app.listen();
+
+  try {
+    for (const path of [
+      '/files/media/images/my%20cat.png',
+      '/assets/css/a.css'
+    ]) {
+      const served = await fetch(`http://localhost:3492${path}`);
+      const local = await app.fetch(new Request(`http://localhost${path}`));
+      expect(await served.json()).toEqual(await local.json());
+    }
+
+    const response = await fetch(
+      'http://localhost:3492/files/media/images/my%20cat.png'
+    );
+    expect(await response.json()).toEqual({
+      bucket: 'media',
+      path: 'images/my cat.png'
+    });
+  } finally {
+    await app.close();
+  }
+});
+
+test('wildcards - in-process matching fills params like Bun.serve', () => {
+  const handler = () => new Response('ok');
+  const match = create_route_matcher({
+    '/files/:bucket/*': handler,
+    '/assets/*': handler
+  });
+
+  expect([...match('/files/media/a/b.png')][0]?.params).toEqual({
+    bucket: 'media'
+  });
+  expect([...match('/assets/css/a.css')][0]?.params).toEqual({});
+});
+
+test('named wildcards - must be the last segment', () => {
+  const app = bunserve();
+
+  expect(() => app.get('/files/*path/raw', () => 'never')).toThrow(
+    'Wildcard must be the last segment'
+  );
+});
+
+test('routes - lists methods, paths, middleware names and options', () => {
+  const app = bunserve();
+  const admin = router();
+
+  async function require_admin(_context: any, next: () => Promise<void>) {
+    await next();
+  }
+
+  app.get('/users/:id', () => ({}), { summary: 'Get a user' });
+  admin.delete('/users/:id', [require_admin], () => null);
+  app.use('/admin', admin);
+  app.ws('/live', {});
+
+  expect(app.routes()).toEqual([
+    {
+      method: 'GET',
+      path: '/users/:id',
+      middlewares: [],
+      options: { summary: 'Get a user' }
+    },
+    {
+      method: 'DELETE',
+      path: '/admin/users/:id',
+      middlewares: ['require_admin'],
+      options: undefined
+    },
+    { method: 'WS', path: '/live', middlewares: [] }
+  ]);
+});
+
+test('conflicts - registering the same method and path twice throws', () => {
+  const app = bunserve();
+
+  app.get('/users/:id', () => 'first');
+  app.post('/users/:id', () => 'other method');
+  app.get('/users/:id<int>', () => 'constrained');
+
+  expect(() => app.get('/users/:name', () => 'second')).toThrow(
+    'Route GET /users/:name is already registered'
+  );
+});
+
+test('conflicts - mounted routers shadowing parent routes throw', () => {
+  const app = bunserve();
+  const admin = router();
+
+  app.get('/admin/stats', () => 'parent');
+  admin.get('/stats', () => 'child');
+
+  expect(() => app.use('/admin', admin)).toThrow(
+    'Route GET /admin/stats from the router mounted at /admin shadows an existing route'
+  );
+});
+
+test('conflicts - can be downgraded to warnings', async () => {
+  const app = bunserve({ route_conflicts: 'warn' });
+  const warnings: string[] = [];
+  const warn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    app.get('/ping', () => 'first');
+    app.get('/ping', () => 'second');
+  } finally {
+    console.warn = warn;
+  }
+
+  expect(warnings).toEqual(['Route GET /ping is already registered']);
+  const response = await app.fetch(new Request('http://localhost/ping'));
+  expect(await response.text()).toBe('second');
+});
+
+test('url_for - builds URLs for named routes with params and query', () => {
+  const app = bunserve()
+    .get('/users/:id<int>', () => 'user', { name: 'user.show' })
+    .get('/posts/:slug/:page?', () => 'post', { name: 'post.show' })
+    .get('/files/*path', () => 'file', { name: 'file.show' });
+
+  expect(app.url_for('user.show', { id: 42 })).toBe('/users/42');
+  expect(app.url_for('post.show', { slug: 'hello world' })).toBe(
+    '/posts/hello%20world'
+  );
+  expect(app.url_for('post.show', { slug: 'hello', page: '2' })).toBe(
+    '/posts/hello/2'
+  );
+  expect(app.url_for('file.show', { path: 'docs/readme.md' })).toBe(
+    '/files/docs/readme.md'
+  );
+  expect(
+    app.url_for(
+      'user.show',
+      { id: 7 },
+      { query: { tab: 'posts', tag: ['a', 'b'], page: undefined } }
+    )
+  ).toBe('/users/7?tab=posts&tag=a&tag=b');
+  expect(app.url_for('user.show', { id: 7 }, { query: { q: 'a b&c' } })).toBe(
+    '/users/7?q=a%20b%26c'
+  );
+
+  // @ts-expect-error - id is required
+  expect(() => app.url_for('user.show', {})).toThrow(
+    'Missing route parameter "id"'
+  );
+  // @ts-expect-error - unknown route name
+  expect(() => app.url_for('user.missing')).toThrow(
+    'Unknown route name "user.missing"'
+  );
+});
+
+test('url_for - includes mount prefixes of routers and groups', () => {
+  const app = bunserve();
+  const users = router();
+
+  users.get('/:id', () => 'user', { name: 'user.show' });
+  app.use('/api/users', users);
+  app.group('/admin', (admin) => {
+    admin.get('/stats', () => 'stats', { name: 'admin.stats' });
+  });
+
+  expect(app.url_for('user.show', { id: 5 })).toBe('/api/users/5');
+  expect(app.url_for('admin.stats')).toBe('/admin/stats');
+});
+
+test('url_for - duplicate names are conflicts', () => {
+  const app = bunserve();
+
+  app.get('/a', () => 'a', { name: 'home' });
+  expect(() => app.get('/b', () => 'b', { name: 'home' })).toThrow(
+    'Route name "home" is already registered'
+  );
+});
@@ -254,3 +254,66 @@ test('Default host is localhost', async () => {
 
   await app.close();
 });
+
+test('server.close waits for in-flight requests and answers new ones with 503', async () => {
+  const app = bunserve({ port: 3490 });
+  const calls: string[] = [];
+  app.get('/slow', async () => {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    calls.push('slow');
+    return 'done';
+  });
+  app.get('/test', () => 'ok');
+  app.on_shutdown(() => {
+    calls.push('shutdown');
+  });
+
+  app.listen();
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const slow = fetch('http://localhost:3490/slow');
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  const closed = app.close();
+  const rejected = await app.fetch(new Request('http://localhost/test'));
+  expect(rejected.status).toBe(503);
+
+  // The in-flight request completes before shutdown hooks run
+  expect(await (await slow).text()).toBe('done');
+  await closed;
+  expect(calls).toEqual(['slow', 'shutdown']);
+});
+
+test('server.close stops waiting after the timeout', async () => {
+  const app = bunserve();
+  let shutdown = false;
+  app.get('/hang', () => new Promise<string>(() => {}));
+  app.on_shutdown(() => {
+    shutdown = true;
+  });
+
+  app.fetch(new Request('http://localhost/hang'));
+
+  const started = Date.now();
+  await app.close({ timeout: 50 });
+  expect(Date.now() - started).toBeLessThan(1000);
+  expect(shutdown).toBe(true);
+});
+
+test('context.ip is the client address of the connection', async () => {
+  const app = bunserve({ port: 3491 });
+  app.get('/ip', ({ ip }) => ip ?? 'none');
+
+  await app.listen();
+
+  const response = await fetch('http://localhost:3491/ip');
+  expect(['127.0.0.1', '::1', '::ffff:127.0.0.1']).toContain(
+    await response.text()
+  );
+
+  // In-process requests have no connection
+  const local = await app.fetch(new Request('http://localhost/ip'));
+  expect(await local.text()).toBe('none');
+
+  await app.close();
+});
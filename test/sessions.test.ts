@@ -308,3 +308,39 @@ test('sessions - updates last access time', async () => {
   expect(stored_session).toBeDefined();
   expect(stored_session!.last_access).toBeGreaterThanOrEqual(first_data.last_access);
 });
+
+test('sessions - session is typed on context state', async () => {
+  const app = bunserve();
+
+  app.use(sessions({ secret: 'test-secret' }));
+
+  app.get('/state', ({ state, request }) => {
+    const session: Session | undefined = state.session;
+    return {
+      session_id: session?.id,
+      same_as_request: session === (request as any).session
+    };
+  });
+
+  const response = await app.fetch(new Request('http://localhost/state'));
+  const data = await response.json();
+  expect(typeof data.session_id).toBe('string');
+  expect(data.same_as_request).toBe(true);
+});
+
+test('sessions - stop() clears the cleanup timer', async () => {
+  let cleanups = 0;
+  const store = new MemorySessionStore();
+  store.cleanup = async () => {
+    cleanups++;
+  };
+
+  const session_middleware = sessions({ store, cleanup_interval: 10 });
+  await new Promise((resolve) => setTimeout(resolve, 35));
+  session_middleware.stop();
+
+  const count = cleanups;
+  expect(count).toBeGreaterThan(0);
+  await new Promise((resolve) => setTimeout(resolve, 35));
+  expect(cleanups).toBe(count);
+});
@@ -0,0 +1,148 @@
+import { expect, test } from 'bun:test';
+import { bunserve, format_sse_event, sse } from '../src';
+
+/**
+ * Read a fixed number of chunks from a streaming response as text.
+ */
+async function read_chunks(response: Response, count: number) {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let i = 0; i < count; i++) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  return { text, reader };
+}
+
+test('format_sse_event formats fields and multi-line data', () => {
+  expect(format_sse_event({ event: 'tick', id: 1, data: { n: 1 } })).toBe(
+    'event: tick\nid: 1\ndata: {"n":1}\n\n'
+  );
+  expect(format_sse_event({ data: 'line 1\nline 2', retry: 3000 })).toBe(
+    'retry: 3000\ndata: line 1\ndata: line 2\n\n'
+  );
+  expect(format_sse_event({ event: 'a\nevent: b', data: 'x' })).toBe(
+    'event: aevent: b\ndata: x\n\n'
+  );
+});
+
+test('context.sse streams events from an async iterator', async () => {
+  const app = bunserve();
+
+  app.get('/ticks', ({ sse }) =>
+    sse(
+      (async function* () {
+        for (let n = 1; n <= 3; n++) {
+          yield { event: 'tick', id: n, data: { n } };
+        }
+      })(),
+      { retry: 1000 }
+    )
+  );
+
+  const response = await app.fetch(new Request('http://localhost/ticks'));
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+  expect(response.headers.get('Cache-Control')).toBe('no-cache');
+  expect(await response.text()).toBe(
+    'retry: 1000\n\n' +
+      'event: tick\nid: 1\ndata: {"n":1}\n\n' +
+      'event: tick\nid: 2\ndata: {"n":2}\n\n' +
+      'event: tick\nid: 3\ndata: {"n":3}\n\n'
+  );
+});
+
+test('emitter callback receives Last-Event-ID and can close the stream', async () => {
+  const app = bunserve();
+
+  app.get('/feed', ({ sse }) =>
+    sse((stream) => {
+      const start = Number(stream.last_event_id ?? 0);
+      stream.send({ id: start + 1, data: 'next' });
+      stream.close();
+    })
+  );
+
+  const response = await app.fetch(
+    new Request('http://localhost/feed', {
+      headers: { 'Last-Event-ID': '41' }
+    })
+  );
+
+  expect(await response.text()).toBe('id: 42\ndata: next\n\n');
+});
+
+test('heartbeat comments are sent while idle', async () => {
+  const app = bunserve();
+
+  app.get('/idle', ({ sse }) => sse(() => {}, { heartbeat: 10 }));
+
+  const response = await app.fetch(new Request('http://localhost/idle'));
+  const { text, reader } = await read_chunks(response, 2);
+
+  expect(text).toBe(': heartbeat\n\n: heartbeat\n\n');
+  await reader.cancel();
+});
+
+test('client disconnect runs cleanup and stops the iterator', async () => {
+  const abort = new AbortController();
+  let cleaned_up = false;
+  let iterator_finished = false;
+
+  const request = new Request('http://localhost/events', {
+    signal: abort.signal
+  });
+
+  const cleanup_response = sse(
+    request,
+    (stream) => {
+      stream.send({ data: 'hello' });
+      return () => {
+        cleaned_up = true;
+      };
+    },
+    { heartbeat: 0 }
+  );
+
+  const { text } = await read_chunks(cleanup_response, 1);
+  expect(text).toBe('data: hello\n\n');
+
+  const iterator_response = sse(
+    request,
+    (async function* () {
+      try {
+        while (true) {
+          yield { data: 'tick' };
+          await Bun.sleep(5);
+        }
+      } finally {
+        iterator_finished = true;
+      }
+    })(),
+    { heartbeat: 0 }
+  );
+  await read_chunks(iterator_response, 1);
+
+  abort.abort();
+  await Bun.sleep(20);
+
+  expect(cleaned_up).toBe(true);
+  expect(iterator_finished).toBe(true);
+});
+
+test('set.headers are merged into SSE responses', async () => {
+  const app = bunserve();
+
+  app.get('/events', ({ set, sse }) => {
+    set.headers['X-Stream'] = 'dashboard';
+    return sse((async function* () {})());
+  });
+
+  const response = await app.fetch(new Request('http://localhost/events'));
+
+  expect(response.headers.get('X-Stream')).toBe('dashboard');
+  expect(await response.text()).toBe('');
+});
@@ -0,0 +1,391 @@
+import { expect, test } from 'bun:test';
+import { bunserve, cors, type StandardSchemaV1, t } from '../src';
+
+test('body schema - valid body reaches handler', async () => {
+  const app = bunserve();
+
+  app.post('/users', ({ body }) => ({ email: body.email, age: body.age }), {
+    body: t.object({
+      email: t.string({ format: 'email' }),
+      age: t.optional(t.integer({ min: 0 }))
+    })
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'a@example.com', age: 30, extra: true })
+    })
+  );
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ email: 'a@example.com', age: 30 });
+});
+
+test('body schema - invalid body responds 422 with issues', async () => {
+  const app = bunserve();
+  let handler_called = false;
+
+  app.post(
+    '/users',
+    () => {
+      handler_called = true;
+      return 'ok';
+    },
+    { body: t.object({ email: t.string({ format: 'email' }) }) }
+  );
+
+  const response = await app.fetch(
+    new Request('http://localhost/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'not-an-email' })
+    })
+  );
+
+  expect(response.status).toBe(422);
+  expect(handler_called).toBe(false);
+  const data = await response.json();
+  expect(data.error).toBe('Validation failed');
+  expect(data.issues).toEqual([
+    { location: 'body', path: ['email'], message: 'Expected email format' }
+  ]);
+});
+
+test('body schema - malformed JSON responds 400', async () => {
+  const app = bunserve();
+
+  app.post('/users', () => 'ok', {
+    body: t.object({ email: t.string() })
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"email":'
+    })
+  );
+
+  expect(response.status).toBe(400);
+  const data = await response.json();
+  expect(data.issues[0].message).toBe('Malformed JSON');
+});
+
+test('params and query schemas coerce strings', async () => {
+  const app = bunserve();
+
+  app.get(
+    '/users/:id',
+    ({ params, query }) => ({
+      id: params.id,
+      page: query.page,
+      active: query.active,
+      tags: query.tags
+    }),
+    {
+      params: t.object({ id: t.integer() }),
+      query: t.object({
+        page: t.number({ min: 1 }),
+        active: t.optional(t.boolean()),
+        tags: t.optional(t.array(t.string()))
+      })
+    }
+  );
+
+  const response = await app.fetch(
+    new Request('http://localhost/users/42?page=2&active=true&tags=a&tags=b')
+  );
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({
+    id: 42,
+    page: 2,
+    active: true,
+    tags: ['a', 'b']
+  });
+});
+
+test('literal and enum query schemas coerce only matching strings', async () => {
+  const app = bunserve();
+
+  app.get('/search', ({ query }) => query, {
+    query: t.object({
+      archived: t.literal(false),
+      limit: t.optional(t.literal(10)),
+      sort: t.optional(t.enum(['asc', 'desc']))
+    })
+  });
+
+  const ok = await app.fetch(
+    new Request(
+      'http://localhost/search?archived=false&limit=10&sort=asc&sort=desc'
+    )
+  );
+  expect(ok.status).toBe(200);
+  expect(await ok.json()).toEqual({ archived: false, limit: 10, sort: 'desc' });
+
+  for (const search of [
+    'archived=banana',
+    'archived=true',
+    'archived=false&sort=up'
+  ]) {
+    const response = await app.fetch(
+      new Request(`http://localhost/search?${search}`)
+    );
+    expect(response.status).toBe(400);
+  }
+});
+
+test('params schema failure responds 400 before route middleware runs', async () => {
+  const app = bunserve();
+  let global_called = false;
+  let route_called = false;
+
+  app.use(async (_context, next) => {
+    global_called = true;
+    await next();
+  });
+
+  app.get(
+    '/users/:id',
+    [
+      async (_context, next) => {
+        route_called = true;
+        await next();
+      }
+    ],
+    ({ params }) => params.id,
+    { params: t.object({ id: t.integer() }) }
+  );
+
+  const response = await app.fetch(new Request('http://localhost/users/abc'));
+
+  expect(response.status).toBe(400);
+  expect(global_called).toBe(true);
+  expect(route_called).toBe(false);
+  const data = await response.json();
+  expect(data.issues[0].location).toBe('params');
+  expect(data.issues[0].message).toBe('Expected number, received string');
+});
+
+test('validation failures keep CORS headers and run on_response hooks', async () => {
+  const app = bunserve();
+  const statuses: number[] = [];
+
+  app.use(cors({ origin: 'https://app.example.com' }));
+  app.on_response((response) => {
+    statuses.push(response.status);
+  });
+
+  app.post('/users', ({ body }) => body.email, {
+    body: t.object({ email: t.string({ format: 'email' }) })
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/users', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: 'https://app.example.com'
+      },
+      body: JSON.stringify({ email: 'nope' })
+    })
+  );
+
+  expect(response.status).toBe(422);
+  expect(response.headers.get('Access-Control-Allow-Origin')).toBe(
+    'https://app.example.com'
+  );
+  expect(statuses).toEqual([422]);
+});
+
+test('headers schema validates lowercase header names', async () => {
+  const app = bunserve();
+
+  app.get('/secure', ({ headers }) => headers['x-api-key'], {
+    headers: t.object({ 'x-api-key': t.string({ min_length: 8 }) })
+  });
+
+  const missing = await app.fetch(new Request('http://localhost/secure'));
+  expect(missing.status).toBe(400);
+  const data = await missing.json();
+  expect(data.issues).toEqual([
+    { location: 'headers', path: ['x-api-key'], message: 'Required' }
+  ]);
+
+  const valid = await app.fetch(
+    new Request('http://localhost/secure', {
+      headers: { 'X-API-Key': 'abcdefgh' }
+    })
+  );
+  expect(valid.status).toBe(200);
+  expect(await valid.text()).toBe('abcdefgh');
+});
+
+test('issues from several inputs are reported together with 400', async () => {
+  const app = bunserve();
+
+  app.post('/items', () => 'ok', {
+    query: t.object({ dry_run: t.boolean() }),
+    body: t.object({ name: t.string() })
+  });
+
+  const response = await app.fetch(
+    new Request('http://localhost/items?dry_run=maybe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    })
+  );
+
+  expect(response.status).toBe(400);
+  const data = await response.json();
+  expect(data.issues.map((issue: any) => issue.location)).toEqual([
+    'query',
+    'body'
+  ]);
+});
+
+test('Standard Schema validators are accepted', async () => {
+  const app = bunserve();
+
+  const positive: StandardSchemaV1<unknown, { amount: number }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'custom',
+      validate: async (value: any) =>
+        typeof value?.amount === 'number' && value.amount > 0
+          ? { value: { amount: value.amount } }
+          : { issues: [{ message: 'Must be positive', path: ['amount'] }] }
+    }
+  };
+
+  app.post('/pay', ({ body }) => ({ charged: body.amount }), {
+    body: positive
+  });
+
+  const ok = await app.fetch(
+    new Request('http://localhost/pay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ amount: 5 })
+    })
+  );
+  expect(await ok.json()).toEqual({ charged: 5 });
+
+  const bad = await app.fetch(
+    new Request('http://localhost/pay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ amount: -1 })
+    })
+  );
+  expect(bad.status).toBe(422);
+  const data = await bad.json();
+  expect(data.issues[0]).toEqual({
+    location: 'body',
+    path: ['amount'],
+    message: 'Must be positive'
+  });
+});
+
+test('built-in schemas implement Standard Schema', async () => {
+  const schema = t.object({
+    name: t.string(),
+    role: t.enum(['admin', 'user'])
+  });
+
+  const valid = await schema['~standard'].validate({
+    name: 'Ada',
+    role: 'admin'
+  });
+  expect(valid).toEqual({ value: { name: 'Ada', role: 'admin' } });
+
+  const invalid = await schema['~standard'].validate({ name: 1, role: 'root' });
+  expect(invalid.issues?.length).toBe(2);
+});
+
+test('response schema - strips unknown fields', async () => {
+  const app = bunserve({ response_validation: 'strip' });
+
+  app.get(
+    '/users/:id',
+    ({ params }) =>
+      ({ id: params.id, name: 'Ada', password_hash: 'secret' }) as any,
+    { response: { 200: t.object({ id: t.string(), name: t.string() }) } }
+  );
+
+  const response = await app.fetch(new Request('http://localhost/users/1'));
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ id: '1', name: 'Ada' });
+});
+
+test('response schema - selected by status code', async () => {
+  const app = bunserve({ response_validation: 'strict' });
+
+  app.get(
+    '/missing',
+    ({ set }) => {
+      set.status = 404;
+      return { error: 'Not found' };
+    },
+    {
+      response: {
+        200: t.object({ id: t.string() }),
+        404: t.object({ error: t.string() })
+      }
+    }
+  );
+
+  const response = await app.fetch(new Request('http://localhost/missing'));
+
+  expect(response.status).toBe(404);
+  expect(await response.json()).toEqual({ error: 'Not found' });
+});
+
+test('response schema - strict mode fails with 500 and issues', async () => {
+  const app = bunserve({ response_validation: 'strict' });
+
+  app.get('/broken', () => ({ id: 42 }) as any, {
+    response: { 200: t.object({ id: t.string() }) }
+  });
+
+  const response = await app.fetch(new Request('http://localhost/broken'));
+
+  expect(response.status).toBe(500);
+  const data = await response.json();
+  expect(data.error).toBe('Response validation failed');
+  expect(data.issues[0]).toEqual({
+    location: 'response',
+    path: ['id'],
+    message: 'Expected string, received number'
+  });
+});
+
+test('response schema - strip mode hides mismatch details', async () => {
+  const app = bunserve({ response_validation: 'strip' });
+
+  app.get('/broken', () => ({ id: 42 }) as any, {
+    response: { 200: t.object({ id: t.string() }) }
+  });
+
+  const response = await app.fetch(new Request('http://localhost/broken'));
+
+  expect(response.status).toBe(500);
+  expect(await response.text()).toBe('Internal Server Error');
+});
+
+test('response schema - off mode sends handler output unchanged', async () => {
+  const app = bunserve({ response_validation: 'off' });
+
+  app.get('/raw', () => ({ id: 42, extra: true }) as any, {
+    response: { 200: t.object({ id: t.string() }) }
+  });
+
+  const response = await app.fetch(new Request('http://localhost/raw'));
+
+  expect(await response.json()).toEqual({ id: 42, extra: true });
+});
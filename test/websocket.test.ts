@@ -0,0 +1,183 @@
+import { expect, test } from 'bun:test';
+import { bunserve, router, t } from '../src';
+
+/**
+ * Open a WebSocket and resolve once connected.
+ */
+function connect(url: string, headers?: Record<string, string>) {
+  return new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(url, { headers } as any);
+    socket.onopen = () => resolve(socket);
+    socket.onerror = () => reject(new Error(`Failed to connect to ${url}`));
+  });
+}
+
+/**
+ * Resolve with the next message received on a socket.
+ */
+function next_message(socket: WebSocket) {
+  return new Promise<string>((resolve) => {
+    socket.addEventListener('message', (event) => resolve(String(event.data)), {
+      once: true
+    });
+  });
+}
+
+test('ws route exposes params, upgrade data and echoes messages', async () => {
+  const app = bunserve({ port: 3480 });
+  const closed: string[] = [];
+
+  app.ws('/chat/:room', {
+    upgrade: ({ query }) => ({ user: query.user ?? 'anonymous' }),
+    open(ws) {
+      ws.send(`joined ${ws.data.params.room} as ${ws.data.data.user}`);
+    },
+    message(ws, message) {
+      ws.send(`echo: ${message}`);
+    },
+    close(ws) {
+      closed.push(ws.data.params.room);
+    }
+  });
+
+  app.listen();
+
+  try {
+    const socket = await connect('ws://localhost:3480/chat/lobby?user=ada');
+    expect(await next_message(socket)).toBe('joined lobby as ada');
+
+    socket.send('hello');
+    expect(await next_message(socket)).toBe('echo: hello');
+
+    socket.close();
+    await Bun.sleep(50);
+    expect(closed).toEqual(['lobby']);
+  } finally {
+    await app.close();
+  }
+});
+
+test('middleware runs during upgrade and can reject it', async () => {
+  const app = bunserve({ port: 3481 });
+  const seen: string[] = [];
+
+  app.use(async ({ request }, next) => {
+    seen.push(new URL(request.url).pathname);
+    await next();
+  });
+
+  const require_token = async (
+    { request, set }: any,
+    next: () => Promise<void>
+  ) => {
+    if (request.headers.get('x-token') !== 'secret') {
+      set.status = 401;
+      return { error: 'Unauthorized' };
+    }
+    await next();
+  };
+
+  app.ws('/private', [require_token], {
+    open(ws) {
+      ws.send('welcome');
+    }
+  });
+
+  app.listen();
+
+  try {
+    await expect(connect('ws://localhost:3481/private')).rejects.toThrow();
+
+    const socket = await connect('ws://localhost:3481/private', {
+      'x-token': 'secret'
+    });
+    expect(await next_message(socket)).toBe('welcome');
+    socket.close();
+
+    expect(seen).toEqual(['/private', '/private']);
+  } finally {
+    await app.close();
+  }
+});
+
+test('message schema validates JSON messages', async () => {
+  const app = bunserve({ port: 3482 });
+
+  app.ws('/moves', {
+    schema: t.object({ x: t.integer(), y: t.integer() }),
+    message(ws, move) {
+      ws.send(JSON.stringify({ sum: move.x + move.y }));
+    }
+  });
+
+  app.listen();
+
+  try {
+    const socket = await connect('ws://localhost:3482/moves');
+
+    socket.send(JSON.stringify({ x: 1, y: 2 }));
+    expect(JSON.parse(await next_message(socket))).toEqual({ sum: 3 });
+
+    socket.send(JSON.stringify({ x: 'left' }));
+    const invalid = JSON.parse(await next_message(socket));
+    expect(invalid.error).toBe('Validation failed');
+    expect(invalid.issues[0].location).toBe('message');
+
+    socket.send('not json');
+    expect(JSON.parse(await next_message(socket))).toEqual({
+      error: 'Malformed JSON'
+    });
+
+    socket.close();
+  } finally {
+    await app.close();
+  }
+});
+
+test('topic pub/sub reaches subscribers on mounted routers', async () => {
+  const app = bunserve({ port: 3483 });
+  const rooms = router().ws('/:room', {
+    open(ws) {
+      ws.subscribe(ws.data.params.room);
+    },
+    message(ws, message) {
+      ws.publish(ws.data.params.room, String(message));
+    }
+  });
+
+  app.use('/rooms', rooms);
+  app.listen();
+
+  try {
+    const alice = await connect('ws://localhost:3483/rooms/general');
+    const bob = await connect('ws://localhost:3483/rooms/general');
+
+    const bob_message = next_message(bob);
+    alice.send('hi bob');
+    expect(await bob_message).toBe('hi bob');
+
+    const server_message = next_message(alice);
+    expect(app.publish('general', 'announcement')).toBeGreaterThan(0);
+    expect(await server_message).toBe('announcement');
+
+    alice.close();
+    bob.close();
+  } finally {
+    await app.close();
+  }
+});
+
+test('ws and GET routes share a path; plain requests get 426', async () => {
+  const app = bunserve();
+
+  app.get('/live', () => ({ mode: 'http' }));
+  app.ws('/live', {});
+  app.ws('/socket-only', {});
+
+  const http = await app.fetch(new Request('http://localhost/live'));
+  expect(await http.json()).toEqual({ mode: 'http' });
+
+  const upgrade = await app.fetch(new Request('http://localhost/socket-only'));
+  expect(upgrade.status).toBe(426);
+  expect(upgrade.headers.get('Upgrade')).toBe('websocket');
+});